@@ -1,14 +1,33 @@
+import { SignalKError } from './errors.ts';
+import { Transport } from './transport.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+
 /** Signal K server Apps API */
 export class SignalKApps {
   /** apps API endpoint. */
   public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
 
-  /** Return List of installed apps. */
-  async list() {
+  /** Return List of installed apps.
+   * @param options Request options (timeout, signal, retry)
+   */
+  async list(options?: HttpOptions) {
     const ep = this.endpoint.indexOf('webapps') === -1
       ? `${this.endpoint}list`
       : this.endpoint;
-    const response = await fetch(ep);
+    const response = await fetchWithOptions(
+      ep,
+      {},
+      options,
+      this.requestOptions,
+      this.transport.fetch,
+    );
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, 'GET', ep);
+    }
     return response.json();
   }
 }
@@ -0,0 +1,434 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKStream } from './stream-api.ts';
+import { NotConnectedError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
+import { debug } from './mod.ts';
+
+/** Autopilot device entry returned when listing devices */
+export interface AutopilotDevice {
+  provider: string;
+  isDefault: boolean;
+}
+
+/** Autopilot state option */
+export interface AutopilotStateOption {
+  name: string;
+  /** true if the autopilot is steering when in this state */
+  engaged: boolean;
+}
+
+/** Autopilot device information */
+export interface AutopilotInfo {
+  options: {
+    states: Array<AutopilotStateOption>;
+    modes: Array<string>;
+  };
+  state: string | null;
+  mode: string | null;
+  /** Target heading / wind angle (radians) */
+  target: number | null;
+  engaged: boolean;
+}
+
+/** Autopilot status received from steering.autopilot.* stream values */
+export interface AutopilotStatus {
+  state: string | null;
+  mode: string | null;
+  engaged: boolean;
+  /** Target values (radians) keyed by path e.g. headingMagnetic, windAngleApparent
+   * or value (v2 steering.autopilot.target) */
+  target: { [key: string]: number | null };
+}
+
+/** Direction in which to tack / gybe */
+export type TurnDirection = 'port' | 'starboard';
+
+/** Error raised when an invalid value is supplied to an autopilot operation */
+export class AutopilotError extends SignalKError {
+  /** Id of the autopilot device */
+  deviceId: string;
+
+  /**
+   * @param message Error message text
+   * @param deviceId Id of the autopilot device
+   */
+  constructor(message: string, deviceId: string) {
+    super(message);
+    this.name = 'AutopilotError';
+    this.deviceId = deviceId;
+  }
+}
+
+/** Id used to address the default autopilot device */
+const DEFAULT_DEVICE = '_default';
+
+/** Signal K v2 Autopilot API operations */
+export class SignalKAutopilot {
+  /** Authentication token
+   * @private
+   */
+  private _token = '';
+
+  /** Autopilot status
+   * @private
+   */
+  private _status: AutopilotStatus = {
+    state: null,
+    mode: null,
+    engaged: false,
+    target: {},
+  };
+
+  /** Autopilots API endpoint e.g. http://host:3000/signalk/v2/api/vessels/self/autopilots */
+  public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to retry the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
+
+  /** Autopilot events */
+  public events: EventEmitter<{
+    'update'(status: AutopilotStatus): void;
+  }>;
+
+  constructor() {
+    this.events = new EventEmitter();
+  }
+
+  /** set auth token value
+   * @param val Authentication token value
+   */
+  set authToken(val: string) {
+    this._token = val;
+  }
+
+  /** Autopilot status (updated from steering.autopilot.* stream values) */
+  get status(): AutopilotStatus {
+    return { ...this._status, target: { ...this._status.target } };
+  }
+
+  /** Update autopilot status from the steering.autopilot.* values received on the supplied stream
+   * (the subscription is held in the stream subscription registry and restored when the stream opens)
+   * @param stream Stream to receive autopilot values from
+   * @returns Function to call to stop receiving values
+   */
+  attach(stream: SignalKStream): () => void {
+    stream.subscribe('self', 'steering.autopilot.*');
+    const remove = stream.onPath(
+      'self',
+      'steering.autopilot.*',
+      (value, _timestamp, _source, path) => {
+        this.updateStatus(path.slice('steering.autopilot.'.length), value);
+      },
+    );
+    return () => {
+      remove();
+      stream.unsubscribe('self', 'steering.autopilot.*');
+    };
+  }
+
+  /** Return the list of available autopilot devices
+   * @param options Request options (timeout, signal, retry)
+   * @returns Autopilot devices keyed by id
+   */
+  async list(
+    options?: HttpOptions,
+  ): Promise<{ [id: string]: AutopilotDevice }> {
+    const response = await this.request('GET', '', '', undefined, options);
+    return response.json();
+  }
+
+  /** Return autopilot device information
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async get(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<AutopilotInfo> {
+    const response = await this.request(
+      'GET',
+      deviceId,
+      '',
+      undefined,
+      options,
+    );
+    return response.json();
+  }
+
+  /** Return the autopilot state
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async getState(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<string | null> {
+    const response = await this.request(
+      'GET',
+      deviceId,
+      'state',
+      undefined,
+      options,
+    );
+    return (await response.json()).value;
+  }
+
+  /** Set the autopilot state
+   * @param state State name e.g. 'auto', 'standby'
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setState(
+    state: string,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('PUT', deviceId, 'state', { value: state }, options);
+  }
+
+  /** Return the autopilot mode
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async getMode(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<string | null> {
+    const response = await this.request(
+      'GET',
+      deviceId,
+      'mode',
+      undefined,
+      options,
+    );
+    return (await response.json()).value;
+  }
+
+  /** Set the autopilot mode
+   * @param mode Mode name e.g. 'compass', 'gps', 'wind'
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setMode(
+    mode: string,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('PUT', deviceId, 'mode', { value: mode }, options);
+  }
+
+  /** Return the autopilot target
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   * @returns Target heading / wind angle (radians)
+   */
+  async getTarget(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<number | null> {
+    const response = await this.request(
+      'GET',
+      deviceId,
+      'target',
+      undefined,
+      options,
+    );
+    return (await response.json()).value;
+  }
+
+  /** Set the target heading (compass / gps modes) or wind angle (wind mode)
+   * @param value Target value (radians)
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setTarget(
+    value: number,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    this.checkNumber(value, deviceId);
+    await this.request('PUT', deviceId, 'target', { value: value }, options);
+  }
+
+  /** Adjust the target heading / wind angle by the supplied increment
+   * @param value Increment (radians), negative values adjust to port
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async adjustTarget(
+    value: number,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    this.checkNumber(value, deviceId);
+    await this.request(
+      'PUT',
+      deviceId,
+      'target/adjust',
+      { value: value },
+      options,
+    );
+  }
+
+  /** Engage the autopilot
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async engage(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('POST', deviceId, 'engage', undefined, options);
+  }
+
+  /** Disengage the autopilot
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async disengage(
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('POST', deviceId, 'disengage', undefined, options);
+  }
+
+  /** Perform a tack
+   * @param direction Direction in which to tack
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async tack(
+    direction: TurnDirection,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request(
+      'POST',
+      deviceId,
+      `tack/${direction}`,
+      undefined,
+      options,
+    );
+  }
+
+  /** Perform a gybe
+   * @param direction Direction in which to gybe
+   * @param deviceId Id of the autopilot device (default: default device)
+   * @param options Request options (timeout, signal, retry)
+   */
+  async gybe(
+    direction: TurnDirection,
+    deviceId = DEFAULT_DEVICE,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request(
+      'POST',
+      deviceId,
+      `gybe/${direction}`,
+      undefined,
+      options,
+    );
+  }
+
+  /** Apply an autopilot value to the autopilot status
+   * @private
+   * @param key Autopilot attribute path relative to steering.autopilot
+   * @param value Autopilot value
+   */
+  private updateStatus(key: string, value: unknown) {
+    if (key.indexOf('target.') === 0) {
+      this._status.target[key.slice('target.'.length)] =
+        typeof value === 'number' ? value : null;
+    } else if (key === 'target') {
+      // ** v2 target value **
+      this._status.target.value = typeof value === 'number' ? value : null;
+    } else if (key === 'state' || key === 'mode') {
+      this._status[key] = typeof value === 'string' ? value : null;
+    } else if (key === 'engaged') {
+      this._status.engaged = value === true;
+    } else {
+      return;
+    }
+    this.events.emit('update', this.status);
+  }
+
+  /** Throw if value is not a valid number
+   * @private
+   * @param value Value to check
+   * @param deviceId Id of the autopilot device
+   */
+  private checkNumber(value: number, deviceId: string) {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      throw new AutopilotError(
+        `Error: Invalid value (${value}) supplied!`,
+        deviceId,
+      );
+    }
+  }
+
+  /** Send request to the autopilots API
+   * @private
+   * @param method HTTP method
+   * @param deviceId Id of the autopilot device
+   * @param path Path relative to the device
+   * @param value Request body
+   * @param httpOptions Timeout, cancellation and retry options
+   */
+  private async request(
+    method: string,
+    deviceId: string,
+    path: string,
+    value?: unknown,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    if (!this.endpoint) {
+      throw new NotConnectedError(
+        'Error: No autopilot endpoint! Use connect() to establish a connection.',
+      );
+    }
+    const url = [this.endpoint, deviceId, path].filter((p) => p).join('/');
+    debug(`${method.toLowerCase()} ${url}`);
+    const headers = new Headers();
+    if (typeof value !== 'undefined') {
+      headers.append('Content-Type', 'application/json');
+    }
+    if (this._token) {
+      headers.append('Authorization', `JWT ${this._token}`);
+    }
+    const options: RequestInit = {
+      method: method,
+      headers: headers,
+    };
+    if (typeof value !== 'undefined') {
+      options.body = JSON.stringify(value);
+    }
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this.requestOptions,
+        this.transport.fetch,
+      );
+    let response = await send(options);
+    if (
+      response.status === 401 && this.onUnauthorized &&
+      (await this.onUnauthorized())
+    ) {
+      await response.body?.cancel();
+      const retryHeaders = new Headers(options.headers);
+      retryHeaders.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: retryHeaders });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, method, url);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  AutopilotError,
+  SignalKAutopilot,
+  SignalKClient,
+  SignalKStream,
+  TimeoutError,
+} from './mod.ts';
+import { MockRequest, SignalKMockServer } from './testing.ts';
+
+Deno.test('autopilot operations are sent to the autopilots API', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const requests: Array<MockRequest> = [];
+  server.respond('*', '/signalk/v2/api/vessels/self/autopilots/*', (req) => {
+    requests.push(req);
+    return req.method === 'GET'
+      ? { body: { value: 'compass' } }
+      : { body: { state: 'COMPLETED', statusCode: 200 } };
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    assertEquals(await client.autopilot.getMode(), 'compass');
+    await client.autopilot.setState('auto', 'pilot-1');
+    await client.autopilot.adjustTarget(-0.1);
+    await client.autopilot.tack('port');
+    assertEquals(
+      requests.map((r) => [r.method, r.path, r.body]),
+      [
+        [
+          'GET',
+          '/signalk/v2/api/vessels/self/autopilots/_default/mode',
+          undefined,
+        ],
+        [
+          'PUT',
+          '/signalk/v2/api/vessels/self/autopilots/pilot-1/state',
+          { value: 'auto' },
+        ],
+        [
+          'PUT',
+          '/signalk/v2/api/vessels/self/autopilots/_default/target/adjust',
+          { value: -0.1 },
+        ],
+        [
+          'POST',
+          '/signalk/v2/api/vessels/self/autopilots/_default/tack/port',
+          undefined,
+        ],
+      ],
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('autopilot requests fail with typed errors', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  server.fail('POST', '/signalk/v2/api/vessels/self/autopilots/*', 504);
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const err = await assertRejects(
+      () => client.autopilot.setTarget(NaN, 'pilot-1'),
+      AutopilotError,
+      'Invalid value',
+    );
+    assertEquals(err.deviceId, 'pilot-1');
+    await assertRejects(() => client.autopilot.engage(), TimeoutError);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('attach() updates autopilot status from stream values', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const autopilot = new SignalKAutopilot();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10 };
+  const messages: Array<unknown> = [];
+  server.events.on('message', (msg) => messages.push(msg));
+  const subscribe = {
+    context: 'vessels.self',
+    subscribe: [{ path: 'steering.autopilot.*' }],
+  };
+  try {
+    const detach = autopilot.attach(stream);
+    const connected = new Promise<void>((resolve) =>
+      stream.events.once('connect', () => resolve())
+    );
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+
+    const updated = new Promise<unknown>((resolve) =>
+      autopilot.events.once('update', (s) => resolve(s.target))
+    );
+    server.pushValue('steering.autopilot.target', 1.5);
+    assertEquals(await updated, { value: 1.5 });
+
+    // ** subscription is sent once after reconnecting **
+    const resubscribed = new Promise<void>((resolve) =>
+      server.events.once('message', () => resolve())
+    );
+    server.closeConnections();
+    await resubscribed;
+    const unsubscribed = new Promise<void>((resolve) =>
+      server.events.once('message', () => resolve())
+    );
+    detach();
+    await unsubscribed;
+    assertEquals(messages, [subscribe, subscribe, {
+      context: 'vessels.self',
+      unsubscribe: [{ path: 'steering.autopilot.*' }],
+    }]);
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('client stream has no subscriptions by default', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = new Promise<void>((resolve) =>
+      client.stream.events.once('connect', () => resolve())
+    );
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    assertEquals(client.stream.subscriptions, {});
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
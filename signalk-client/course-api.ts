@@ -0,0 +1,317 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKStream } from './stream-api.ts';
+import { Position } from './paths.ts';
+import { NotConnectedError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
+import { debug } from './mod.ts';
+
+/** Course point (destination / previous point) */
+export interface CoursePoint {
+  href?: string;
+  type?: string;
+  position: Position;
+}
+
+/** Active route information */
+export interface ActiveRoute {
+  href: string;
+  name?: string;
+  pointIndex: number;
+  pointTotal?: number;
+  reverse: boolean;
+}
+
+/** Current course state */
+export interface CourseState {
+  startTime: string | null;
+  targetArrivalTime: string | null;
+  /** Arrival circle radius (m) */
+  arrivalCircle: number;
+  activeRoute: ActiveRoute | null;
+  nextPoint: CoursePoint | null;
+  previousPoint: CoursePoint | null;
+  /** Calculated course values keyed by path e.g. distance, bearingTrue */
+  calcValues: { [key: string]: unknown };
+}
+
+/** Signal K v2 Course API operations */
+export class SignalKCourse {
+  /** Authentication token
+   * @private
+   */
+  private _token = '';
+
+  /** Current course state
+   * @private
+   */
+  private _state: CourseState = {
+    startTime: null,
+    targetArrivalTime: null,
+    arrivalCircle: 0,
+    activeRoute: null,
+    nextPoint: null,
+    previousPoint: null,
+    calcValues: {},
+  };
+
+  /** Course API endpoint e.g. http://host:3000/signalk/v2/api/vessels/self/navigation/course */
+  public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to retry the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
+
+  /** Course events */
+  public events: EventEmitter<{
+    'update'(state: CourseState): void;
+  }>;
+
+  constructor() {
+    this.events = new EventEmitter();
+  }
+
+  /** set auth token value
+   * @param val Authentication token value
+   */
+  set authToken(val: string) {
+    this._token = val;
+  }
+
+  /** Current course state (updated from navigation.course.* stream values) */
+  get state(): CourseState {
+    return {
+      ...this._state,
+      calcValues: { ...this._state.calcValues },
+    };
+  }
+
+  /** Update course state from the navigation.course.* values received on the supplied stream
+   * (the subscription is held in the stream subscription registry and restored when the stream opens)
+   * @param stream Stream to receive course values from
+   * @returns Function to call to stop receiving values
+   */
+  attach(stream: SignalKStream): () => void {
+    stream.subscribe('self', 'navigation.course.*');
+    const remove = stream.onPath(
+      'self',
+      'navigation.course.*',
+      (value, _timestamp, _source, path) => {
+        this.updateState(path.slice('navigation.course.'.length), value);
+      },
+    );
+    return () => {
+      remove();
+      stream.unsubscribe('self', 'navigation.course.*');
+    };
+  }
+
+  /** Retrieve the current course information from the server
+   * @param options Request options (timeout, signal, retry)
+   */
+  async getCourse(options?: HttpOptions): Promise<CourseState> {
+    const response = await this.request('GET', '', undefined, options);
+    const course = await response.json();
+    Object.keys(this._state).forEach((k) => {
+      if (typeof course[k] !== 'undefined') {
+        this.updateState(k, course[k]);
+      }
+    });
+    return this.state;
+  }
+
+  /** Set destination to the supplied position
+   * @param position Destination position
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setDestination(
+    position: Position,
+    options?: HttpOptions,
+  ): Promise<void>;
+  /** Set destination to the supplied waypoint
+   * @param href Waypoint reference e.g. /resources/waypoints/<id>
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setDestination(href: string, options?: HttpOptions): Promise<void>;
+  async setDestination(
+    dest: Position | string,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request(
+      'PUT',
+      'destination',
+      typeof dest === 'string' ? { href: dest } : { position: dest },
+      options,
+    );
+  }
+
+  /** Activate (follow) a route
+   * @param href Route reference e.g. /resources/routes/<id>
+   * @param options reverse: follow route in reverse order, pointIndex: index of point to start at
+   * @param httpOptions Request options (timeout, signal, retry)
+   */
+  async activateRoute(
+    href: string,
+    options?: { reverse?: boolean; pointIndex?: number },
+    httpOptions?: HttpOptions,
+  ): Promise<void> {
+    const value: { href: string; reverse?: boolean; pointIndex?: number } = {
+      href: href,
+    };
+    if (typeof options?.reverse === 'boolean') {
+      value.reverse = options.reverse;
+    }
+    if (typeof options?.pointIndex === 'number') {
+      value.pointIndex = options.pointIndex;
+    }
+    await this.request('PUT', 'activeRoute', value, httpOptions);
+  }
+
+  /** Advance to the next point in the active route
+   * @param options Request options (timeout, signal, retry)
+   */
+  async nextPoint(options?: HttpOptions): Promise<void> {
+    await this.request('PUT', 'activeRoute/nextPoint', { value: 1 }, options);
+  }
+
+  /** Return to the previous point in the active route
+   * @param options Request options (timeout, signal, retry)
+   */
+  async previousPoint(options?: HttpOptions): Promise<void> {
+    await this.request('PUT', 'activeRoute/nextPoint', { value: -1 }, options);
+  }
+
+  /** Set the active route point
+   * @param index Index of the point in the route
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setPointIndex(index: number, options?: HttpOptions): Promise<void> {
+    await this.request(
+      'PUT',
+      'activeRoute/pointIndex',
+      { value: index },
+      options,
+    );
+  }
+
+  /** Reverse the direction of the active route
+   * @param pointIndex Index of point to start at
+   * @param options Request options (timeout, signal, retry)
+   */
+  async reverseRoute(
+    pointIndex?: number,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request(
+      'PUT',
+      'activeRoute/reverse',
+      typeof pointIndex === 'number' ? { pointIndex: pointIndex } : {},
+      options,
+    );
+  }
+
+  /** Restart the course from the current vessel position
+   * @param options Request options (timeout, signal, retry)
+   */
+  async restart(options?: HttpOptions): Promise<void> {
+    await this.request('PUT', 'restart', undefined, options);
+  }
+
+  /** Set arrival circle radius
+   * @param radius Radius in meters
+   * @param options Request options (timeout, signal, retry)
+   */
+  async setArrivalCircle(
+    radius: number,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('PUT', 'arrivalCircle', { value: radius }, options);
+  }
+
+  /** Clear the current destination / active route
+   * @param options Request options (timeout, signal, retry)
+   */
+  async clear(options?: HttpOptions): Promise<void> {
+    await this.request('DELETE', '', undefined, options);
+  }
+
+  /** Apply a course value to the course state
+   * @private
+   * @param key Course attribute path relative to navigation.course
+   * @param value Course value
+   */
+  private updateState(key: string, value: unknown) {
+    const s = this._state as unknown as { [key: string]: unknown };
+    if (key.indexOf('calcValues.') === 0) {
+      this._state.calcValues[key.slice('calcValues.'.length)] = value;
+    } else if (key === 'calcValues') {
+      this._state.calcValues = value && typeof value === 'object'
+        ? { ...value }
+        : {};
+    } else if (key.indexOf('.') === -1 && key in s) {
+      s[key] = value ?? (key === 'arrivalCircle' ? 0 : null);
+    } else {
+      return;
+    }
+    this.events.emit('update', this.state);
+  }
+
+  /** Send request to the course API
+   * @private
+   * @param method HTTP method
+   * @param path Path relative to the course endpoint
+   * @param value Request body
+   * @param httpOptions Timeout, cancellation and retry options
+   */
+  private async request(
+    method: string,
+    path: string,
+    value?: unknown,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    if (!this.endpoint) {
+      throw new NotConnectedError(
+        'Error: No course endpoint! Use connect() to establish a connection.',
+      );
+    }
+    const url = path ? `${this.endpoint}/${path}` : this.endpoint;
+    debug(`${method.toLowerCase()} ${url}`);
+    const headers = new Headers({ 'Content-Type': 'application/json' });
+    if (this._token) {
+      headers.append('Authorization', `JWT ${this._token}`);
+    }
+    const options: RequestInit = {
+      method: method,
+      headers: headers,
+    };
+    if (method !== 'GET' && method !== 'DELETE') {
+      options.body = JSON.stringify(value ?? {});
+    }
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this.requestOptions,
+        this.transport.fetch,
+      );
+    let response = await send(options);
+    if (
+      response.status === 401 && this.onUnauthorized &&
+      (await this.onUnauthorized())
+    ) {
+      await response.body?.cancel();
+      const retryHeaders = new Headers(options.headers);
+      retryHeaders.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: retryHeaders });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, method, url);
+    }
+    return response;
+  }
+}
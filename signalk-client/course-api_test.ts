@@ -0,0 +1,122 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { SignalKClient, SignalKCourse, SignalKStream } from './mod.ts';
+import { MockRequest, SignalKMockServer } from './testing.ts';
+
+Deno.test('course operations are sent to the course API', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const requests: Array<MockRequest> = [];
+  server.respond('*', '/signalk/v2/api/vessels/self/navigation/course*', (
+    req,
+  ) => {
+    requests.push(req);
+    return req.method === 'GET'
+      ? { body: { arrivalCircle: 500, calcValues: { distance: 1000 } } }
+      : { body: { state: 'COMPLETED', statusCode: 200 } };
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const state = await client.course.getCourse();
+    assertEquals(state.arrivalCircle, 500);
+    assertEquals(state.calcValues, { distance: 1000 });
+
+    await client.course.setDestination({ latitude: -35.1, longitude: 138.5 });
+    await client.course.activateRoute('/resources/routes/route-1', {
+      reverse: true,
+    });
+    await client.course.nextPoint();
+    await client.course.clear();
+    assertEquals(
+      requests.slice(1).map((r) => [r.method, r.path, r.body]),
+      [
+        [
+          'PUT',
+          '/signalk/v2/api/vessels/self/navigation/course/destination',
+          { position: { latitude: -35.1, longitude: 138.5 } },
+        ],
+        [
+          'PUT',
+          '/signalk/v2/api/vessels/self/navigation/course/activeRoute',
+          { href: '/resources/routes/route-1', reverse: true },
+        ],
+        [
+          'PUT',
+          '/signalk/v2/api/vessels/self/navigation/course/activeRoute/nextPoint',
+          { value: 1 },
+        ],
+        ['DELETE', '/signalk/v2/api/vessels/self/navigation/course', undefined],
+      ],
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('attach() updates course state from stream values', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const course = new SignalKCourse();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10 };
+  const messages: Array<unknown> = [];
+  server.events.on('message', (msg) => messages.push(msg));
+  const subscribe = {
+    context: 'vessels.self',
+    subscribe: [{ path: 'navigation.course.*' }],
+  };
+  try {
+    const detach = course.attach(stream);
+    const connected = new Promise<void>((resolve) =>
+      stream.events.once('connect', () => resolve())
+    );
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+
+    const updated = new Promise<number>((resolve) =>
+      course.events.once('update', (s) => resolve(s.arrivalCircle))
+    );
+    server.pushValue('navigation.course.arrivalCircle', 250);
+    assertEquals(await updated, 250);
+
+    // ** subscription is sent once after reconnecting **
+    const resubscribed = new Promise<void>((resolve) =>
+      server.events.once('message', () => resolve())
+    );
+    server.closeConnections();
+    await resubscribed;
+    const unsubscribed = new Promise<void>((resolve) =>
+      server.events.once('message', () => resolve())
+    );
+    detach();
+    await unsubscribed;
+    assertEquals(messages, [subscribe, subscribe, {
+      context: 'vessels.self',
+      unsubscribe: [{ path: 'navigation.course.*' }],
+    }]);
+    assertEquals(stream.subscriptions, {});
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('course is not attached to the client stream by default', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = new Promise<void>((resolve) =>
+      client.stream.events.once('connect', () => resolve())
+    );
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    assertEquals(
+      JSON.stringify(client.stream.subscriptions).includes('navigation.course'),
+      false,
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
@@ -0,0 +1,174 @@
+/** Credentials retained for a Signal K server */
+export interface StoredCredentials {
+  /** User authentication token */
+  token?: string;
+  /** Client id used for access requests */
+  clientId?: string;
+  /** Token issued when an access request was approved */
+  deviceToken?: string;
+}
+
+/** Storage for credentials keyed by Signal K server (hostname:port/server id) */
+export interface CredentialStore {
+  /** Return the credentials stored for a server
+   * @param serverId Key of the Signal K server
+   */
+  get(serverId: string): Promise<StoredCredentials | undefined>;
+  /** Store the credentials for a server (replaces existing values)
+   * @param serverId Key of the Signal K server
+   * @param credentials Credentials to store
+   */
+  set(serverId: string, credentials: StoredCredentials): Promise<void>;
+  /** Remove the credentials stored for a server
+   * @param serverId Key of the Signal K server
+   */
+  delete(serverId: string): Promise<void>;
+}
+
+/** Credential store held in memory (not persisted between runs) */
+export class MemoryCredentialStore implements CredentialStore {
+  /** Stored credentials
+   * @private
+   */
+  private _entries: Map<string, StoredCredentials> = new Map();
+
+  get(serverId: string): Promise<StoredCredentials | undefined> {
+    const c = this._entries.get(serverId);
+    return Promise.resolve(c ? { ...c } : undefined);
+  }
+
+  set(serverId: string, credentials: StoredCredentials): Promise<void> {
+    this._entries.set(serverId, { ...credentials });
+    return Promise.resolve();
+  }
+
+  delete(serverId: string): Promise<void> {
+    this._entries.delete(serverId);
+    return Promise.resolve();
+  }
+}
+
+/** Credential store persisted to a JSON file (readable by the owner only) */
+export class FileCredentialStore implements CredentialStore {
+  /** Path of the credentials file
+   * @private
+   */
+  private _path: string;
+
+  /** Pending write operations
+   * @private
+   */
+  private _writing: Promise<unknown> = Promise.resolve();
+
+  /** @param path Path of the credentials file */
+  constructor(path: string) {
+    this._path = path;
+  }
+
+  async get(serverId: string): Promise<StoredCredentials | undefined> {
+    await this._writing;
+    return (await this.read())[serverId];
+  }
+
+  set(serverId: string, credentials: StoredCredentials): Promise<void> {
+    return this.update((entries) => {
+      entries[serverId] = { ...credentials };
+    });
+  }
+
+  delete(serverId: string): Promise<void> {
+    return this.update((entries) => {
+      delete entries[serverId];
+    });
+  }
+
+  /** Read the contents of the credentials file
+   * @private
+   */
+  private async read(): Promise<{ [serverId: string]: StoredCredentials }> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this._path));
+    } catch (err) {
+      if (err instanceof Deno.errors.NotFound) {
+        return {};
+      }
+      throw new Error(`Error: Unable to read credentials file! (${err})`);
+    }
+  }
+
+  /** Apply a change to the contents of the credentials file
+   * @private
+   * @param fn Function that modifies the file contents
+   */
+  private update(
+    fn: (entries: { [serverId: string]: StoredCredentials }) => void,
+  ): Promise<void> {
+    const op = this._writing.then(async () => {
+      const entries = await this.read();
+      fn(entries);
+      await Deno.writeTextFile(this._path, JSON.stringify(entries, null, 2), {
+        mode: 0o600,
+      });
+    });
+    this._writing = op.catch(() => {});
+    return op;
+  }
+}
+
+/** Credential store persisted in a Deno KV database (requires --unstable-kv) */
+export class KvCredentialStore implements CredentialStore {
+  /** KV database
+   * @private
+   */
+  private _kv: Promise<Deno.Kv> | undefined;
+
+  /** Path of the KV database
+   * @private
+   */
+  private _path: string | undefined;
+
+  /** Prefix of the keys used to store credentials */
+  public prefix: Array<string> = ['signalk-client', 'credentials'];
+
+  /** @param path Path of the KV database (default: Deno default database) */
+  constructor(path?: string) {
+    this._path = path;
+  }
+
+  async get(serverId: string): Promise<StoredCredentials | undefined> {
+    const entry = await (await this.kv()).get<StoredCredentials>([
+      ...this.prefix,
+      serverId,
+    ]);
+    return entry.value ?? undefined;
+  }
+
+  async set(serverId: string, credentials: StoredCredentials): Promise<void> {
+    await (await this.kv()).set([...this.prefix, serverId], {
+      ...credentials,
+    });
+  }
+
+  async delete(serverId: string): Promise<void> {
+    await (await this.kv()).delete([...this.prefix, serverId]);
+  }
+
+  /** Close the KV database */
+  async close() {
+    if (this._kv) {
+      const kv = this._kv;
+      this._kv = undefined;
+      (await kv).close();
+    }
+  }
+
+  /** Open the KV database
+   * @private
+   */
+  private kv(): Promise<Deno.Kv> {
+    if (!this._kv) {
+      this._kv = Deno.openKv(this._path);
+    }
+    return this._kv;
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  assert,
+  assertEquals,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { MemoryCredentialStore, SignalKClient } from './mod.ts';
+import { MockRequest, SignalKMockServer } from './testing.ts';
+
+/** Return the credential store key of the mock server */
+function serverKey(port: number): string {
+  return `127.0.0.1:${port}/signalk-mock-server`;
+}
+
+/** Return the token the client sends with an HTTP API request */
+async function sentToken(
+  server: SignalKMockServer,
+  client: SignalKClient,
+): Promise<string> {
+  let token = '';
+  const listener = (req: MockRequest) => {
+    if (req.path === '/signalk/v1/api/self') {
+      token = (req.headers.get('Authorization') ?? '').replace('JWT ', '');
+    }
+  };
+  server.events.on('request', listener);
+  try {
+    await client.api.get('/self').catch(() => undefined);
+  } finally {
+    server.events.off('request', listener);
+  }
+  return token;
+}
+
+Deno.test('MemoryCredentialStore returns copies of stored values', async () => {
+  const store = new MemoryCredentialStore();
+  assertEquals(await store.get('server'), undefined);
+  await store.set('server', { token: 'abc', clientId: 'client-1' });
+  const stored = await store.get('server');
+  assertEquals(stored, { token: 'abc', clientId: 'client-1' });
+  stored!.token = 'changed';
+  assertEquals((await store.get('server'))?.token, 'abc');
+  await store.delete('server');
+  assertEquals(await store.get('server'), undefined);
+});
+
+Deno.test('connect() restores a valid stored token', async () => {
+  const server = new SignalKMockServer({ security: true });
+  const port = await server.start();
+  const store = new MemoryCredentialStore();
+  const token = server.issueToken('admin');
+  await store.set(serverKey(port), { token: token, clientId: 'client-1' });
+  const client = new SignalKClient();
+  client.credentialStore = store;
+  try {
+    assert(await client.connect('127.0.0.1', port));
+    assertEquals(client.clientId, 'client-1');
+    const restored = await sentToken(server, client);
+    assert(server.isValidToken(restored));
+    // ** the refreshed token replaces the stored token **
+    assertEquals((await store.get(serverKey(port)))?.token, restored);
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('connect() removes stored tokens rejected by the server', async () => {
+  const server = new SignalKMockServer({ security: true });
+  const port = await server.start();
+  const store = new MemoryCredentialStore();
+  const token = server.issueToken('admin');
+  server.revokeToken(token);
+  await store.set(serverKey(port), { token: token, clientId: 'client-1' });
+  const client = new SignalKClient();
+  client.credentialStore = store;
+  try {
+    assert(await client.connect('127.0.0.1', port));
+    assertEquals(await sentToken(server, client), '');
+    assertEquals(await store.get(serverKey(port)), { clientId: 'client-1' });
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('connect() keeps stored tokens when validation fails', async () => {
+  const server = new SignalKMockServer({ security: true });
+  const port = await server.start();
+  const store = new MemoryCredentialStore();
+  const token = server.issueToken('admin');
+  await store.set(serverKey(port), { token: token, deviceToken: 'device' });
+  server.fail('POST', '/signalk/v1/auth/validate', 503);
+  const client = new SignalKClient();
+  client.credentialStore = store;
+  try {
+    assert(await client.connect('127.0.0.1', port));
+    assertEquals(await sentToken(server, client), token);
+    assertEquals(await store.get(serverKey(port)), {
+      token: token,
+      deviceToken: 'device',
+    });
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('connect() falls back to a stored device token', async () => {
+  const server = new SignalKMockServer({ security: true });
+  const port = await server.start();
+  const store = new MemoryCredentialStore();
+  const token = server.issueToken('admin');
+  server.revokeToken(token);
+  const deviceToken = server.issueToken('device');
+  await store.set(serverKey(port), { token: token, deviceToken: deviceToken });
+  const client = new SignalKClient();
+  client.credentialStore = store;
+  try {
+    assert(await client.connect('127.0.0.1', port));
+    const restored = await sentToken(server, client);
+    assert(server.isValidToken(restored));
+    // ** the rejected user token is removed, the device token is refreshed **
+    assertEquals(await store.get(serverKey(port)), { deviceToken: restored });
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
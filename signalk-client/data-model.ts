@@ -0,0 +1,226 @@
+import { SignalKHttp } from './http-api.ts';
+import { Delta, PathValue, Source, Update } from './types.ts';
+import { debug } from './mod.ts';
+
+/** Value held in the data model for a context / path */
+export interface ModelEntry {
+  value: unknown;
+  timestamp?: string;
+  $source?: string;
+}
+
+/** Test if the supplied value is a (non-array) object
+ * @param val Value to test
+ */
+function isObject(val: unknown): val is { [key: string]: unknown } {
+  return !!val && typeof val === 'object' && !Array.isArray(val);
+}
+
+/** In-memory Signal K full data model built from received deltas. */
+export class SignalKDataModel {
+  /** Entries keyed by context and path
+   * @private
+   */
+  private _data: Map<string, Map<string, ModelEntry>> = new Map();
+
+  /** Context of the self vessel e.g. vessels.urn:mrn:imo:mmsi:123456789
+   * @private
+   */
+  private _selfId = '';
+
+  /** Get context of the self vessel */
+  get selfId(): string {
+    return this._selfId;
+  }
+
+  /** Set context of the self vessel. Entries held under 'vessels.self' are moved to the supplied context.
+   * @param val Self context value e.g. vessels.urn:mrn:imo:mmsi:123456789
+   */
+  set selfId(val: string) {
+    this._selfId = val;
+    const self = this._data.get('vessels.self');
+    if (val && self) {
+      this._data.delete('vessels.self');
+      const entries = this.context(val, true) as Map<string, ModelEntry>;
+      self.forEach((e, path) => {
+        if (!entries.has(path)) {
+          entries.set(path, e);
+        }
+      });
+    }
+  }
+
+  /** List of contexts held in the model */
+  get contexts(): Array<string> {
+    return Array.from(this._data.keys());
+  }
+
+  /** Return the value entry for the supplied context and path
+   * @param context Signal K context e.g. 'vessels.self'
+   * @param path Signal K path e.g. 'navigation.position'
+   */
+  get(context: string, path: string): ModelEntry | undefined {
+    const e = this.context(context)?.get(path);
+    return e ? { ...e } : undefined;
+  }
+
+  /** Return the value entries held for the supplied context keyed by path
+   * @param context Signal K context e.g. 'vessels.self'
+   */
+  getContext(context: string): { [path: string]: ModelEntry } {
+    const res: { [path: string]: ModelEntry } = {};
+    this.context(context)?.forEach((e, path) => {
+      res[path] = { ...e };
+    });
+    return res;
+  }
+
+  /** Set the value entry for the supplied context and path
+   * @param context Signal K context
+   * @param path Signal K path
+   * @param entry Value entry
+   */
+  set(context: string, path: string, entry: ModelEntry) {
+    (this.context(context, true) as Map<string, ModelEntry>).set(path, entry);
+  }
+
+  /** Remove all entries from the model */
+  clear() {
+    this._data.clear();
+  }
+
+  /** Merge the values contained in a delta message into the model
+   * @param msg Delta message
+   */
+  update(msg: Delta) {
+    if (!msg || !Array.isArray(msg.updates)) {
+      return;
+    }
+    const context = msg.context ?? 'vessels.self';
+    msg.updates.forEach((u: Update) => {
+      if (!Array.isArray(u.values)) {
+        return;
+      }
+      const $source = u.$source ?? SignalKDataModel.sourceRef(u.source);
+      u.values.forEach((v: PathValue) => {
+        if (!v || typeof v.path === 'undefined') {
+          return;
+        }
+        if (
+          v.path === '' && v.value && typeof v.value === 'object' &&
+          !Array.isArray(v.value)
+        ) {
+          // ** values at root of context e.g. name, mmsi **
+          const root = v.value as { [key: string]: unknown };
+          Object.keys(root).forEach((k) => {
+            this.set(context, k, {
+              value: root[k],
+              timestamp: u.timestamp,
+              $source: $source,
+            });
+          });
+        } else {
+          this.set(context, v.path, {
+            value: v.value,
+            timestamp: u.timestamp,
+            $source: $source,
+          });
+        }
+      });
+    });
+  }
+
+  /** Merge a Signal K full format tree into the model
+   * @param context Signal K context of the supplied tree
+   * @param tree Full format Signal K data e.g. response from getSelf()
+   */
+  load(context: string, tree: { [key: string]: unknown }) {
+    const walk = (node: { [key: string]: unknown }, prefix: string) => {
+      Object.keys(node).forEach((k) => {
+        if (k === 'meta' || k === 'values') {
+          return;
+        }
+        const path = prefix ? `${prefix}.${k}` : k;
+        const n = node[k];
+        if (isObject(n)) {
+          if (typeof n.value !== 'undefined') {
+            this.set(context, path, {
+              value: n.value,
+              timestamp: typeof n.timestamp === 'string'
+                ? n.timestamp
+                : undefined,
+              $source: typeof n.$source === 'string' ? n.$source : undefined,
+            });
+          } else {
+            walk(n, path);
+          }
+        } else {
+          this.set(context, path, { value: n });
+        }
+      });
+    };
+    if (isObject(tree)) {
+      walk(tree, '');
+    }
+  }
+
+  /** Seed the model with current values retrieved via the HTTP API
+   * @param api Connected HTTP API instance
+   * @param allVessels true = load all vessels, false = load self vessel only
+   */
+  async seed(api: SignalKHttp, allVessels = false) {
+    if (allVessels) {
+      const vessels: unknown = await api.get('vessels');
+      if (isObject(vessels)) {
+        Object.keys(vessels).forEach((id) => {
+          const vessel = vessels[id];
+          if (isObject(vessel)) {
+            this.load(`vessels.${id}`, vessel);
+          }
+        });
+      }
+      return;
+    }
+    if (!this._selfId) {
+      const self: unknown = await api.getSelfId();
+      if (typeof self === 'string') {
+        this.selfId = self;
+      }
+    }
+    debug(`seed model: ${this._selfId || 'vessels.self'}`);
+    this.load(this._selfId || 'vessels.self', await api.getSelf());
+  }
+
+  /** Return the entries for a context resolving 'self' references
+   * @private
+   * @param context Signal K context
+   * @param create Create the context entry if it does not exist
+   */
+  private context(
+    context: string,
+    create = false,
+  ): Map<string, ModelEntry> | undefined {
+    if (context === 'self' || context === 'vessels.self') {
+      context = this._selfId || 'vessels.self';
+    }
+    let entries = this._data.get(context);
+    if (!entries && create) {
+      entries = new Map();
+      this._data.set(context, entries);
+    }
+    return entries;
+  }
+
+  /** Return $source reference for a source object
+   * @param source Delta update source object
+   */
+  static sourceRef(source?: Source): string | undefined {
+    if (!source || typeof source !== 'object') {
+      return undefined;
+    }
+    const src = source.src ?? source.talker ?? source.pgn;
+    return `${source.label ?? ''}${
+      typeof src !== 'undefined' ? '.' + src : ''
+    }`;
+  }
+}
@@ -0,0 +1,105 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { SignalKClient, SignalKDataModel } from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+Deno.test('update() merges delta values into the model', () => {
+  const model = new SignalKDataModel();
+  model.update({
+    context: 'vessels.self',
+    updates: [{
+      timestamp: '2024-01-01T00:00:00.000Z',
+      source: { label: 'n2k', src: '115' },
+      values: [
+        { path: 'navigation.speedOverGround', value: 3.2 },
+        { path: '', value: { name: 'Mock' } },
+      ],
+    }],
+  });
+  assertEquals(model.get('self', 'navigation.speedOverGround'), {
+    value: 3.2,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    $source: 'n2k.115',
+  });
+  assertEquals(model.get('vessels.self', 'name')?.value, 'Mock');
+
+  // ** entries held under vessels.self move to the self context **
+  model.selfId = 'vessels.urn:mrn:imo:mmsi:123456789';
+  assertEquals(model.contexts, ['vessels.urn:mrn:imo:mmsi:123456789']);
+  assertEquals(
+    model.get('vessels.urn:mrn:imo:mmsi:123456789', 'name')?.value,
+    'Mock',
+  );
+});
+
+Deno.test('load() merges a full format tree into the model', () => {
+  const model = new SignalKDataModel();
+  model.load('vessels.self', {
+    name: 'Mock',
+    navigation: {
+      speedOverGround: {
+        value: 3.2,
+        timestamp: '2024-01-01T00:00:00.000Z',
+        $source: 'n2k.115',
+        meta: { units: 'm/s' },
+        values: { 'n2k.115': { value: 3.2 } },
+      },
+      position: { value: { latitude: 1, longitude: 2 } },
+    },
+  });
+  assertEquals(model.getContext('self'), {
+    name: { value: 'Mock' },
+    'navigation.speedOverGround': {
+      value: 3.2,
+      timestamp: '2024-01-01T00:00:00.000Z',
+      $source: 'n2k.115',
+    },
+    'navigation.position': {
+      value: { latitude: 1, longitude: 2 },
+      timestamp: undefined,
+      $source: undefined,
+    },
+  });
+});
+
+Deno.test('seed() loads current values via the HTTP API', async () => {
+  const self = 'vessels.urn:mrn:signalk:uuid:mock-vessel';
+  const server = new SignalKMockServer({
+    tree: {
+      self: self,
+      vessels: {
+        'urn:mrn:signalk:uuid:mock-vessel': {
+          name: 'Mock',
+          navigation: { headingTrue: { value: 1.5 } },
+        },
+        'urn:mrn:imo:mmsi:123456789': { name: 'Other' },
+      },
+    },
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const model = new SignalKDataModel();
+    await model.seed(client.api);
+    assertEquals(model.selfId, self);
+    assertEquals(model.get('self', 'navigation.headingTrue')?.value, 1.5);
+    assertEquals(model.contexts, [self]);
+
+    await model.seed(client.api, true);
+    assertEquals(
+      model.get('vessels.urn:mrn:imo:mmsi:123456789', 'name')?.value,
+      'Other',
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('sourceRef() returns the $source reference', () => {
+  assertEquals(
+    SignalKDataModel.sourceRef({ label: 'n2k', src: '115' }),
+    'n2k.115',
+  );
+  assertEquals(SignalKDataModel.sourceRef({ label: 'gps' }), 'gps');
+  assertEquals(SignalKDataModel.sourceRef(), undefined);
+});
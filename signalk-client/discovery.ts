@@ -0,0 +1,379 @@
+import { debug } from './mod.ts';
+
+/** Signal K server discovered via mDNS */
+export interface DiscoveredServer {
+  /** Service instance name e.g. 'My Boat._signalk-http._tcp.local' */
+  name: string;
+  /** Service type e.g. 'signalk-http' */
+  service: string;
+  /** Host name e.g. 'myboat.local' */
+  hostname: string;
+  /** IP address of the host (if advertised) */
+  address?: string;
+  port: number;
+  /** true if the service uses TLS (https / wss) */
+  tls: boolean;
+  /** TXT record values e.g. { server: 'signalk-server', self: 'urn:mrn:...' } */
+  txt: { [key: string]: string };
+}
+
+/** Transport used to send and receive mDNS packets */
+export interface MdnsTransport {
+  /** Send a packet to the mDNS multicast group */
+  send(packet: Uint8Array): Promise<void>;
+  /** Receive the next packet (resolves undefined when the transport is closed) */
+  receive(): Promise<Uint8Array | undefined>;
+  close(): void;
+}
+
+/** Options for server discovery */
+export interface DiscoveryOptions {
+  /** Time to wait for responses in ms (default: 3000) */
+  timeout?: number;
+  /** Service types to browse (default: signalk-http, signalk-https, signalk-ws) */
+  services?: Array<string>;
+  /** Transport to use (default: MulticastTransport) */
+  transport?: MdnsTransport;
+  /** Function called as each server is discovered */
+  onFound?: (server: DiscoveredServer) => void;
+}
+
+/** Services advertised by Signal K servers */
+const SERVICES = ['signalk-http', 'signalk-https', 'signalk-ws'];
+
+/** Services using TLS */
+const TLS_SERVICES = ['signalk-https', 'signalk-wss'];
+
+/** DNS record types */
+enum RecordType {
+  A = 1,
+  PTR = 12,
+  TXT = 16,
+  AAAA = 28,
+  SRV = 33,
+}
+
+/** Resource record contained in a DNS message
+ * @private
+ */
+interface DnsRecord {
+  name: string;
+  type: number;
+  data: unknown;
+}
+
+/** mDNS transport using UDP multicast (requires --unstable-net) */
+export class MulticastTransport implements MdnsTransport {
+  /** UDP socket
+   * @private
+   */
+  private _conn: Deno.DatagramConn | undefined;
+
+  /** Multicast group address
+   * @private
+   */
+  private _addr: Deno.NetAddr = {
+    transport: 'udp',
+    hostname: '224.0.0.251',
+    port: 5353,
+  };
+
+  /** IPv4 address of the network interface to use
+   * @private
+   */
+  private _iface: string;
+
+  /** Transport closed flag
+   * @private
+   */
+  private _closed = false;
+
+  /** @param iface IPv4 address of the network interface to use (default: all interfaces) */
+  constructor(iface = '0.0.0.0') {
+    this._iface = iface;
+  }
+
+  async send(packet: Uint8Array) {
+    await (await this.connection()).send(packet, this._addr);
+  }
+
+  async receive(): Promise<Uint8Array | undefined> {
+    if (this._closed) {
+      return undefined;
+    }
+    try {
+      const [data] = await (await this.connection()).receive();
+      return data;
+    } catch {
+      return undefined;
+    }
+  }
+
+  close() {
+    this._closed = true;
+    if (this._conn) {
+      this._conn.close();
+      this._conn = undefined;
+    }
+  }
+
+  /** Open the UDP socket and join the multicast group
+   * @private
+   */
+  private async connection(): Promise<Deno.DatagramConn> {
+    if (!this._conn) {
+      this._conn = Deno.listenDatagram({
+        transport: 'udp',
+        hostname: '0.0.0.0',
+        port: 5353,
+        reuseAddress: true,
+      });
+      await this._conn.joinMulticastV4(this._addr.hostname, this._iface);
+    }
+    return this._conn;
+  }
+}
+
+/** Discover Signal K servers on the local network using mDNS / DNS-SD
+ * @param options Discovery options
+ * @returns List of discovered servers
+ */
+export async function discover(
+  options?: DiscoveryOptions,
+): Promise<Array<DiscoveredServer>> {
+  const services = options?.services ?? SERVICES;
+  const transport = options?.transport ?? new MulticastTransport();
+  const records: Array<DnsRecord> = [];
+  const found: Map<string, DiscoveredServer> = new Map();
+
+  const collect = () => {
+    services.forEach((service) => {
+      const type = `_${service}._tcp.local`;
+      records.filter((r) => r.type === RecordType.PTR && sameName(r.name, type))
+        .forEach((ptr) => {
+          const name = ptr.data as string;
+          const key = `${service}/${name.toLowerCase()}`;
+          const server = buildServer(records, name, service);
+          if (!server) {
+            return;
+          }
+          const existing = found.get(key);
+          if (existing) {
+            // ** address records may arrive after the service records **
+            existing.address = existing.address ?? server.address;
+            return;
+          }
+          debug(`discovered ${service}: ${server.hostname}:${server.port}`);
+          found.set(key, server);
+          if (options?.onFound) {
+            options.onFound(server);
+          }
+        });
+    });
+  };
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const done = new Promise<void>((resolve) => {
+    timer = setTimeout(resolve, options?.timeout ?? 3000);
+  });
+
+  const receiving = (async () => {
+    let packet: Uint8Array | undefined;
+    try {
+      while ((packet = await transport.receive())) {
+        try {
+          records.push(...decodeMessage(packet));
+          collect();
+        } catch (err) {
+          debug(`invalid mDNS packet: ${err}`);
+        }
+      }
+    } catch (err) {
+      debug(`mDNS receive failed: ${err}`);
+    }
+  })();
+
+  try {
+    await transport.send(
+      encodeQuery(services.map((s) => `_${s}._tcp.local`)),
+    );
+    await done;
+  } finally {
+    clearTimeout(timer);
+    transport.close();
+    await receiving;
+  }
+  return Array.from(found.values());
+}
+
+/** Build server details from the records for a service instance
+ * @private
+ * @param records Received records
+ * @param name Service instance name
+ * @param service Service type
+ */
+function buildServer(
+  records: Array<DnsRecord>,
+  name: string,
+  service: string,
+): DiscoveredServer | undefined {
+  const srv = records.find((r) =>
+    r.type === RecordType.SRV && sameName(r.name, name)
+  )?.data as { port: number; target: string } | undefined;
+  if (!srv) {
+    return;
+  }
+  const txt = records.find((r) =>
+    r.type === RecordType.TXT && sameName(r.name, name)
+  )?.data as { [key: string]: string } | undefined;
+  const addr =
+    records.find((r) =>
+      r.type === RecordType.A && sameName(r.name, srv.target)
+    ) ??
+      records.find((r) =>
+        r.type === RecordType.AAAA && sameName(r.name, srv.target)
+      );
+  return {
+    name: name,
+    service: service,
+    hostname: srv.target,
+    address: addr?.data as string | undefined,
+    port: srv.port,
+    tls: TLS_SERVICES.includes(service),
+    txt: txt ?? {},
+  };
+}
+
+/** Compare DNS names (case-insensitive, RFC 6762)
+ * @private
+ * @param a DNS name
+ * @param b DNS name
+ */
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/** Encode a DNS query for PTR records of the supplied names
+ * @private
+ * @param names Names to query e.g. '_signalk-http._tcp.local'
+ */
+function encodeQuery(names: Array<string>): Uint8Array {
+  const bytes: Array<number> = [0, 0, 0, 0, 0, names.length, 0, 0, 0, 0, 0, 0];
+  names.forEach((name) => {
+    name.split('.').forEach((label) => {
+      const l = new TextEncoder().encode(label);
+      bytes.push(l.length, ...l);
+    });
+    bytes.push(0, 0, RecordType.PTR, 0, 1);
+  });
+  return new Uint8Array(bytes);
+}
+
+/** Decode the resource records contained in a DNS message
+ * @private
+ * @param buf DNS message
+ */
+function decodeMessage(buf: Uint8Array): Array<DnsRecord> {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  const qdcount = view.getUint16(4);
+  const rrcount = view.getUint16(6) + view.getUint16(8) + view.getUint16(10);
+  let offset = 12;
+  for (let i = 0; i < qdcount; i++) {
+    offset = decodeName(buf, offset).next + 4;
+  }
+  const records: Array<DnsRecord> = [];
+  for (let i = 0; i < rrcount; i++) {
+    const n = decodeName(buf, offset);
+    const type = view.getUint16(n.next);
+    const len = view.getUint16(n.next + 8);
+    const start = n.next + 10;
+    let data: unknown;
+    switch (type) {
+      case RecordType.PTR:
+        data = decodeName(buf, start).name;
+        break;
+      case RecordType.SRV:
+        data = {
+          port: view.getUint16(start + 4),
+          target: decodeName(buf, start + 6).name,
+        };
+        break;
+      case RecordType.TXT:
+        data = decodeTxt(buf.subarray(start, start + len));
+        break;
+      case RecordType.A:
+        data = Array.from(buf.subarray(start, start + 4)).join('.');
+        break;
+      case RecordType.AAAA: {
+        const parts: Array<string> = [];
+        for (let j = 0; j < 16; j += 2) {
+          parts.push(view.getUint16(start + j).toString(16));
+        }
+        data = parts.join(':');
+        break;
+      }
+    }
+    if (typeof data !== 'undefined') {
+      records.push({ name: n.name, type: type, data: data });
+    }
+    offset = start + len;
+  }
+  return records;
+}
+
+/** Decode a (possibly compressed) domain name
+ * @private
+ * @param buf DNS message
+ * @param offset Offset of the name
+ * @returns Name and offset of the data following the name
+ */
+function decodeName(
+  buf: Uint8Array,
+  offset: number,
+): { name: string; next: number } {
+  const labels: Array<string> = [];
+  let next = -1;
+  let jumps = 0;
+  while (buf[offset] !== 0) {
+    if (offset >= buf.length || jumps > 20) {
+      throw new Error('Error: Invalid name!');
+    }
+    if ((buf[offset] & 0xc0) === 0xc0) {
+      if (next === -1) {
+        next = offset + 2;
+      }
+      offset = ((buf[offset] & 0x3f) << 8) | buf[offset + 1];
+      jumps++;
+      continue;
+    }
+    const len = buf[offset];
+    labels.push(
+      new TextDecoder().decode(buf.subarray(offset + 1, offset + 1 + len)),
+    );
+    offset += len + 1;
+  }
+  return { name: labels.join('.'), next: next === -1 ? offset + 1 : next };
+}
+
+/** Decode TXT record strings (key=value)
+ * @private
+ * @param buf TXT record data
+ */
+function decodeTxt(buf: Uint8Array): { [key: string]: string } {
+  const res: { [key: string]: string } = {};
+  let offset = 0;
+  while (offset < buf.length) {
+    const len = buf[offset];
+    const s = new TextDecoder().decode(
+      buf.subarray(offset + 1, offset + 1 + len),
+    );
+    const idx = s.indexOf('=');
+    if (s) {
+      res[idx === -1 ? s : s.slice(0, idx)] = idx === -1
+        ? ''
+        : s.slice(idx + 1);
+    }
+    offset += len + 1;
+  }
+  return res;
+}
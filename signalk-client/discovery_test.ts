@@ -0,0 +1,249 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { discover, DiscoveredServer, MdnsTransport } from './mod.ts';
+
+/** Encode a DNS name */
+function name(n: string): Array<number> {
+  const bytes: Array<number> = [];
+  n.split('.').forEach((label) => {
+    const l = new TextEncoder().encode(label);
+    bytes.push(l.length, ...l);
+  });
+  bytes.push(0);
+  return bytes;
+}
+
+/** Encode a resource record */
+function record(n: string, type: number, data: Array<number>): Array<number> {
+  return [
+    ...name(n),
+    0,
+    type,
+    0x80,
+    1,
+    0,
+    0,
+    0,
+    120,
+    data.length >> 8,
+    data.length & 0xff,
+    ...data,
+  ];
+}
+
+/** Encode a DNS response containing the supplied records */
+function response(records: Array<Array<number>>): Uint8Array {
+  return new Uint8Array([
+    0,
+    0,
+    0x84,
+    0,
+    0,
+    0,
+    0,
+    records.length,
+    0,
+    0,
+    0,
+    0,
+    ...records.flat(),
+  ]);
+}
+
+/** Signal K service advertised by the responder */
+interface Advert {
+  service: string;
+  instance: string;
+  host: string;
+  port: number;
+  address: Array<number>;
+  txt: Array<string>;
+}
+
+/** Stand-in mDNS responder answering PTR queries for the advertised services */
+class MdnsResponder implements MdnsTransport {
+  queries: Array<Array<string>> = [];
+  closed = false;
+  private _packets: Array<Uint8Array> = [];
+  private _waiting: Array<(p: Uint8Array | undefined) => void> = [];
+
+  constructor(public adverts: Array<Advert>, public upperCase = false) {}
+
+  send(packet: Uint8Array): Promise<void> {
+    const names = MdnsResponder.questions(packet);
+    this.queries.push(names);
+    this.adverts.filter((a) => names.includes(`_${a.service}._tcp.local`))
+      .forEach((a) => {
+        const n = (s: string) => this.upperCase ? s.toUpperCase() : s;
+        const txt = a.txt.flatMap((t) => {
+          const b = new TextEncoder().encode(t);
+          return [b.length, ...b];
+        });
+        // ** service and host records are sent in separate packets **
+        setTimeout(() =>
+          this.deliver(response([
+            record(`_${a.service}._tcp.local`, 12, name(a.instance)),
+            record(n(a.instance), 33, [
+              0,
+              0,
+              0,
+              0,
+              a.port >> 8,
+              a.port & 0xff,
+              ...name(a.host),
+            ]),
+            record(n(a.instance), 16, txt),
+          ])), 5);
+        setTimeout(
+          () => this.deliver(response([record(n(a.host), 1, a.address)])),
+          10,
+        );
+      });
+    return Promise.resolve();
+  }
+
+  receive(): Promise<Uint8Array | undefined> {
+    const p = this._packets.shift();
+    if (p || this.closed) {
+      return Promise.resolve(p);
+    }
+    return new Promise((resolve) => this._waiting.push(resolve));
+  }
+
+  close() {
+    this.closed = true;
+    this._waiting.forEach((resolve) => resolve(undefined));
+    this._waiting = [];
+  }
+
+  /** Queue a packet for receive() */
+  deliver(packet: Uint8Array) {
+    if (this.closed) {
+      return;
+    }
+    const waiting = this._waiting.shift();
+    if (waiting) {
+      waiting(packet);
+    } else {
+      this._packets.push(packet);
+    }
+  }
+
+  /** Return the names contained in the question section of a query */
+  static questions(packet: Uint8Array): Array<string> {
+    const count = (packet[4] << 8) | packet[5];
+    const names: Array<string> = [];
+    let offset = 12;
+    for (let i = 0; i < count; i++) {
+      const labels: Array<string> = [];
+      while (packet[offset] !== 0) {
+        const len = packet[offset];
+        labels.push(
+          new TextDecoder().decode(
+            packet.subarray(offset + 1, offset + 1 + len),
+          ),
+        );
+        offset += len + 1;
+      }
+      offset += 5;
+      names.push(labels.join('.'));
+    }
+    return names;
+  }
+}
+
+const boat: Advert = {
+  service: 'signalk-http',
+  instance: 'My Boat._signalk-http._tcp.local',
+  host: 'myboat.local',
+  port: 3000,
+  address: [192, 168, 1, 10],
+  txt: ['txtvers=1', 'server=signalk-server', 'self=urn:mrn:imo:mmsi:123'],
+};
+
+Deno.test('discover() returns servers advertised via mDNS', async () => {
+  const responder = new MdnsResponder([boat, {
+    ...boat,
+    service: 'signalk-https',
+    instance: 'My Boat._signalk-https._tcp.local',
+    port: 3443,
+  }]);
+  const found: Array<DiscoveredServer> = [];
+  const servers = await discover({
+    transport: responder,
+    timeout: 50,
+    onFound: (s) => found.push(s),
+  });
+  assertEquals(responder.queries, [[
+    '_signalk-http._tcp.local',
+    '_signalk-https._tcp.local',
+    '_signalk-ws._tcp.local',
+  ]]);
+  assertEquals(servers, [
+    {
+      name: 'My Boat._signalk-http._tcp.local',
+      service: 'signalk-http',
+      hostname: 'myboat.local',
+      address: '192.168.1.10',
+      port: 3000,
+      tls: false,
+      txt: {
+        txtvers: '1',
+        server: 'signalk-server',
+        self: 'urn:mrn:imo:mmsi:123',
+      },
+    },
+    {
+      name: 'My Boat._signalk-https._tcp.local',
+      service: 'signalk-https',
+      hostname: 'myboat.local',
+      address: '192.168.1.10',
+      port: 3443,
+      tls: true,
+      txt: {
+        txtvers: '1',
+        server: 'signalk-server',
+        self: 'urn:mrn:imo:mmsi:123',
+      },
+    },
+  ]);
+  // ** servers are reported as soon as the service records are received **
+  assertEquals(found.map((s) => s.port), [3000, 3443]);
+  assertEquals(responder.closed, true);
+});
+
+Deno.test('discover() matches DNS names case-insensitively', async () => {
+  const responder = new MdnsResponder([boat], true);
+  const servers = await discover({
+    transport: responder,
+    timeout: 50,
+    services: ['signalk-http'],
+  });
+  assertEquals(servers.length, 1);
+  assertEquals(servers[0].port, 3000);
+  assertEquals(servers[0].txt.server, 'signalk-server');
+});
+
+Deno.test('discover() ignores invalid packets', async () => {
+  const responder = new MdnsResponder([boat]);
+  const send = responder.send.bind(responder);
+  responder.send = (packet: Uint8Array) => {
+    responder.deliver(new Uint8Array([0, 0, 0x84, 0, 0, 0, 0, 5]));
+    return send(packet);
+  };
+  const servers = await discover({ transport: responder, timeout: 50 });
+  assertEquals(servers.map((s) => s.port), [3000]);
+});
+
+Deno.test('discover() closes the transport when the query fails', async () => {
+  const responder = new MdnsResponder([]);
+  responder.send = () => Promise.reject(new Error('Network unreachable'));
+  await assertRejects(
+    () => discover({ transport: responder, timeout: 50 }),
+    Error,
+    'Network unreachable',
+  );
+  assertEquals(responder.closed, true);
+});
@@ -0,0 +1,140 @@
+/** Error raised when a Signal K HTTP request fails */
+export class SignalKError extends Error {
+  /** HTTP status code (0 if no response was received) */
+  status: number;
+  /** Request url */
+  url: string;
+  /** Request method */
+  method: string;
+  /** Response body (parsed JSON if possible, else text) */
+  body: unknown;
+
+  /**
+   * @param message Error message text
+   * @param status HTTP status code
+   * @param url Request url
+   * @param method Request method
+   * @param body Response body
+   */
+  constructor(
+    message: string,
+    status = 0,
+    url = '',
+    method = '',
+    body?: unknown,
+  ) {
+    super(message);
+    this.name = 'SignalKError';
+    this.status = status;
+    this.url = url;
+    this.method = method;
+    this.body = body;
+  }
+
+  /** Create the error for an unsuccessful response
+   * @param response Received response
+   * @param method Request method
+   * @param url Request url (default: response.url)
+   * @returns Error of the class matching the response status
+   */
+  static async fromResponse(
+    response: Response,
+    method: string,
+    url: string = response.url,
+  ): Promise<SignalKError> {
+    let body: unknown;
+    try {
+      const text = await response.text();
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text;
+      }
+    } catch {
+      body = undefined;
+    }
+    const detail = body && typeof body === 'object' &&
+        typeof (body as { message?: unknown }).message === 'string'
+      ? (body as { message: string }).message
+      : response.statusText;
+    const message = `Error: ${method} ${url} failed! (${response.status}) ${
+      detail ?? ''
+    }`;
+    const args: [string, number, string, string, unknown] = [
+      message,
+      response.status,
+      url,
+      method,
+      body,
+    ];
+    switch (response.status) {
+      case 401:
+      case 403:
+        return new UnauthorizedError(...args);
+      case 404:
+        return new NotFoundError(...args);
+      case 408:
+      case 504:
+        return new TimeoutError(...args);
+      default:
+        return new SignalKError(...args);
+    }
+  }
+}
+
+/** Error raised when a request is made without a connection to a Signal K server
+ * (no endpoint or the server could not be reached) */
+export class NotConnectedError extends SignalKError {
+  constructor(
+    message = 'Error: Not connected to a Signal K server!',
+    status = 0,
+    url = '',
+    method = '',
+    body?: unknown,
+  ) {
+    super(message, status, url, method, body);
+    this.name = 'NotConnectedError';
+  }
+}
+
+/** Error raised when a request is rejected as unauthorized (401) or forbidden (403) */
+export class UnauthorizedError extends SignalKError {
+  constructor(
+    message: string,
+    status = 401,
+    url = '',
+    method = '',
+    body?: unknown,
+  ) {
+    super(message, status, url, method, body);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/** Error raised when the requested resource does not exist (404) */
+export class NotFoundError extends SignalKError {
+  constructor(
+    message: string,
+    status = 404,
+    url = '',
+    method = '',
+    body?: unknown,
+  ) {
+    super(message, status, url, method, body);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Error raised when a request times out */
+export class TimeoutError extends SignalKError {
+  constructor(
+    message: string,
+    status = 0,
+    url = '',
+    method = '',
+    body?: unknown,
+  ) {
+    super(message, status, url, method, body);
+    this.name = 'TimeoutError';
+  }
+}
@@ -0,0 +1,115 @@
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  NotConnectedError,
+  NotFoundError,
+  SignalKClient,
+  SignalKError,
+  TimeoutError,
+  UnauthorizedError,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+Deno.test('requests before connect() reject with NotConnectedError', async () => {
+  const client = new SignalKClient();
+  const err = await assertRejects(
+    () => client.api.get('vessels.self'),
+    NotConnectedError,
+  );
+  assertInstanceOf(err, SignalKError);
+  assertEquals(err.status, 0);
+});
+
+Deno.test('unreachable server rejects with NotConnectedError', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  await client.connect('127.0.0.1', port, false);
+  await server.stop();
+  await assertRejects(() => client.api.get('vessels.self'), NotConnectedError);
+});
+
+Deno.test('error class matches the response status', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const cases: Array<[number, typeof SignalKError]> = [
+      [401, UnauthorizedError],
+      [403, UnauthorizedError],
+      [404, NotFoundError],
+      [504, TimeoutError],
+      [500, SignalKError],
+    ];
+    for (const [status, errorClass] of cases) {
+      server.fail('GET', '/signalk/v1/api/vessels/*', status);
+      const err = await assertRejects(
+        () => client.api.get('vessels.self.name'),
+        errorClass,
+      );
+      assertEquals(err.name, errorClass.name);
+      assertEquals(err.status, status);
+      assertEquals(err.method, 'GET');
+      assertEquals(
+        err.url,
+        `http://127.0.0.1:${port}/signalk/v1/api/vessels/self/name`,
+      );
+      assertEquals(err.body, { message: 'Mock failure' });
+    }
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('delete() errors report the DELETE method', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    server.fail('DELETE', '/signalk/v1/api/vessels/*', 403);
+    const err = await assertRejects(
+      () => client.api.delete('vessels.self.name'),
+      UnauthorizedError,
+    );
+    assertEquals(err.method, 'DELETE');
+    assertEquals(err.status, 403);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('v2 API errors use the error hierarchy', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    client.resources.endpoint =
+      `http://127.0.0.1:${port}/signalk/v2/api/resources/`;
+    await assertRejects(
+      () => client.resources.get('routes', 'missing'),
+      NotFoundError,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('fromResponse() uses the supplied request url', async () => {
+  const err = await SignalKError.fromResponse(
+    new Response('{"message":"Not found"}', { status: 404 }),
+    'GET',
+    'http://localhost/signalk/v1/api/vessels/self/name',
+  );
+  assertInstanceOf(err, NotFoundError);
+  assertEquals(err.url, 'http://localhost/signalk/v1/api/vessels/self/name');
+  assertEquals(
+    err.message,
+    'Error: GET http://localhost/signalk/v1/api/vessels/self/name failed! (404) Not found',
+  );
+});
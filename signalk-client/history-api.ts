@@ -0,0 +1,243 @@
+import { NotConnectedError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
+import { debug } from './mod.ts';
+
+/** Method used to aggregate values within each resolution interval */
+export type AggregateMethod = 'average' | 'min' | 'max' | 'first' | 'last';
+
+/** Time range */
+export interface TimeRange {
+  from?: string | Date;
+  to?: string | Date;
+  /** ISO 8601 duration e.g. 'PT1H' or number of seconds */
+  duration?: string | number;
+}
+
+/** History values query */
+export interface HistoryQuery extends TimeRange {
+  /** Paths to retrieve, optionally with the aggregate method for each path */
+  paths: Array<string | { path: string; method?: AggregateMethod }>;
+  /** Signal K context (default: vessels.self) */
+  context?: string;
+  /** Length of each interval in seconds or time expression e.g. '1m' */
+  resolution?: number | string;
+  /** Aggregate method used for paths without a method (default: average) */
+  method?: AggregateMethod;
+}
+
+/** Values of a path aligned to HistoryValues.timestamps */
+export interface HistorySeries<T = number> {
+  path: string;
+  method: AggregateMethod;
+  /** Aggregated value for each timestamp (null if no value in the interval) */
+  values: Array<T | null>;
+}
+
+/** Time series returned by a history values query */
+export interface HistoryValues<T = number> {
+  context: string;
+  range: { from: string; to: string };
+  /** Start time of each interval */
+  timestamps: Array<string>;
+  /** One entry for each requested path */
+  series: Array<HistorySeries<T>>;
+}
+
+/** Signal K v2 History API operations */
+export class SignalKHistory {
+  /** Authentication token
+   * @private
+   */
+  private _token = '';
+
+  /** History API endpoint e.g. http://host:3000/signalk/v2/api/history */
+  public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to retry the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
+
+  /** set auth token value
+   * @param val Authentication token value
+   */
+  set authToken(val: string) {
+    this._token = val;
+  }
+
+  /** Retrieve the values of the supplied paths over a time range
+   * @param query Paths, time range, resolution and aggregate method
+   * @param options Request options (timeout, signal, retry)
+   * @returns Time series with values aligned to timestamps
+   */
+  async getValues<T = number>(
+    query: HistoryQuery,
+    options?: HttpOptions,
+  ): Promise<HistoryValues<T>> {
+    if (!query || !Array.isArray(query.paths) || query.paths.length === 0) {
+      throw new Error('Error: No paths supplied!');
+    }
+    const params = this.rangeParams(query);
+    params.set(
+      'paths',
+      query.paths.map((p) => {
+        const path = typeof p === 'string' ? p : p.path;
+        const method = (typeof p === 'string' ? undefined : p.method) ??
+          query.method;
+        return method ? `${path}:${method}` : path;
+      }).join(','),
+    );
+    if (query.context) {
+      params.set(
+        'context',
+        query.context === 'self' ? 'vessels.self' : query.context,
+      );
+    }
+    if (typeof query.resolution !== 'undefined') {
+      params.set('resolution', String(query.resolution));
+    }
+    const response = await this.request('values', params, options);
+    return this.toSeries<T>(await response.json());
+  }
+
+  /** Return the list of contexts with history values in the time range
+   * @param range Time range
+   * @param options Request options (timeout, signal, retry)
+   */
+  async getContexts(
+    range?: TimeRange,
+    options?: HttpOptions,
+  ): Promise<Array<string>> {
+    const response = await this.request(
+      'contexts',
+      this.rangeParams(range),
+      options,
+    );
+    return response.json();
+  }
+
+  /** Return the list of paths with history values in the time range
+   * @param range Time range
+   * @param options Request options (timeout, signal, retry)
+   */
+  async getPaths(
+    range?: TimeRange,
+    options?: HttpOptions,
+  ): Promise<Array<string>> {
+    const response = await this.request(
+      'paths',
+      this.rangeParams(range),
+      options,
+    );
+    return response.json();
+  }
+
+  /** Convert history values response to column aligned series
+   * @private
+   * @param res Response received from the server
+   */
+  private toSeries<T>(
+    res: {
+      context: string;
+      range: { from: string; to: string };
+      values: Array<{ path: string; method: AggregateMethod }>;
+      data: Array<Array<unknown>>;
+    },
+  ): HistoryValues<T> {
+    const data = Array.isArray(res.data) ? res.data : [];
+    const values = Array.isArray(res.values) ? res.values : [];
+    return {
+      context: res.context,
+      range: res.range,
+      timestamps: data.map((row) => row[0] as string),
+      series: values.map((v, i) => {
+        return {
+          path: v.path,
+          method: v.method,
+          values: data.map((row) => (row[i + 1] ?? null) as T | null),
+        };
+      }),
+    };
+  }
+
+  /** Return query parameters for the supplied time range
+   * @private
+   * @param range Time range
+   */
+  private rangeParams(range?: TimeRange): URLSearchParams {
+    const params = new URLSearchParams();
+    if (range?.from) {
+      params.set(
+        'from',
+        range.from instanceof Date ? range.from.toISOString() : range.from,
+      );
+    }
+    if (range?.to) {
+      params.set(
+        'to',
+        range.to instanceof Date ? range.to.toISOString() : range.to,
+      );
+    }
+    if (typeof range?.duration === 'number') {
+      params.set('duration', `PT${range.duration}S`);
+    } else if (range?.duration) {
+      params.set('duration', range.duration);
+    }
+    return params;
+  }
+
+  /** Send request to the history API
+   * @private
+   * @param path Path relative to the history endpoint
+   * @param params Query parameters
+   * @param httpOptions Timeout, cancellation and retry options
+   */
+  private async request(
+    path: string,
+    params: URLSearchParams,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    if (!this.endpoint) {
+      throw new NotConnectedError(
+        'Error: No history endpoint! Use connect() to establish a connection.',
+      );
+    }
+    const q = params.toString();
+    const url = `${this.endpoint}/${path}${q ? '?' + q : ''}`;
+    debug(`get ${url}`);
+    const headers = new Headers();
+    if (this._token) {
+      headers.append('Authorization', `JWT ${this._token}`);
+    }
+    const options: RequestInit = {
+      method: 'GET',
+      headers: headers,
+    };
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this.requestOptions,
+        this.transport.fetch,
+      );
+    let response = await send(options);
+    if (
+      response.status === 401 && this.onUnauthorized &&
+      (await this.onUnauthorized())
+    ) {
+      await response.body?.cancel();
+      const retryHeaders = new Headers(options.headers);
+      retryHeaders.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: retryHeaders });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, 'GET', url);
+    }
+    return response;
+  }
+}
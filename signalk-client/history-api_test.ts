@@ -0,0 +1,113 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { NotFoundError, SignalKClient } from './mod.ts';
+import { MockRequest, SignalKMockServer } from './testing.ts';
+
+Deno.test('getValues() returns column aligned series', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const requests: Array<MockRequest> = [];
+  server.respond('GET', '/signalk/v2/api/history/values', (req) => {
+    requests.push(req);
+    return {
+      body: {
+        context: 'vessels.urn:mrn:signalk:uuid:mock-vessel',
+        range: {
+          from: '2024-01-01T00:00:00Z',
+          to: '2024-01-01T00:02:00Z',
+        },
+        values: [
+          { path: 'navigation.speedOverGround', method: 'average' },
+          { path: 'environment.wind.speedApparent', method: 'max' },
+        ],
+        data: [
+          ['2024-01-01T00:00:00Z', 3.1, 7],
+          ['2024-01-01T00:01:00Z', null, 8],
+        ],
+      },
+    };
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const res = await client.history.getValues({
+      paths: [
+        'navigation.speedOverGround',
+        { path: 'environment.wind.speedApparent', method: 'max' },
+      ],
+      context: 'self',
+      from: new Date('2024-01-01T00:00:00Z'),
+      duration: 120,
+      resolution: 60,
+    });
+    assertEquals(res.timestamps, [
+      '2024-01-01T00:00:00Z',
+      '2024-01-01T00:01:00Z',
+    ]);
+    assertEquals(res.series, [
+      {
+        path: 'navigation.speedOverGround',
+        method: 'average',
+        values: [3.1, null],
+      },
+      {
+        path: 'environment.wind.speedApparent',
+        method: 'max',
+        values: [7, 8],
+      },
+    ]);
+    const q = requests[0].query;
+    assertEquals(
+      q.get('paths'),
+      'navigation.speedOverGround,environment.wind.speedApparent:max',
+    );
+    assertEquals(q.get('context'), 'vessels.self');
+    assertEquals(q.get('from'), '2024-01-01T00:00:00.000Z');
+    assertEquals(q.get('duration'), 'PT120S');
+    assertEquals(q.get('resolution'), '60');
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('getContexts() and getPaths() return lists', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  server.respond('GET', '/signalk/v2/api/history/contexts', {
+    body: ['vessels.urn:mrn:signalk:uuid:mock-vessel'],
+  });
+  server.respond('GET', '/signalk/v2/api/history/paths', {
+    body: ['navigation.speedOverGround'],
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    assertEquals(await client.history.getContexts({ duration: 'PT1H' }), [
+      'vessels.urn:mrn:signalk:uuid:mock-vessel',
+    ]);
+    assertEquals(await client.history.getPaths(), [
+      'navigation.speedOverGround',
+    ]);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('history requests fail when no provider is available', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    await assertRejects(
+      () => client.history.getValues({ paths: [] }),
+      Error,
+      'No paths supplied',
+    );
+    await assertRejects(() => client.history.getPaths(), NotFoundError);
+  } finally {
+    await server.stop();
+  }
+});
@@ -1,5 +1,9 @@
 import { Alarm, AlarmType, Path } from './utils.ts';
 import { SKServer } from './signalk-client.ts';
+import { PathResponse, PathValueType } from './paths.ts';
+import { NotConnectedError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
 import { debug } from './mod.ts';
 
 /** Signal K HTTP API operations */
@@ -13,8 +17,15 @@ export class SignalKHttp {
   public server: SKServer = { version: '', id: '' };
   /** Connection endpoint */
   public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
   /** API version to use */
   public version = 1;
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to retry the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
 
   /** set auth token value
    * @param val Authentication token value
@@ -49,23 +60,35 @@ export class SignalKHttp {
 
   /** Get API path value via HTTP
    * @param path Signal K path value
+   * @param options Request options (timeout, signal, retry)
    */
   /** Get API path value via HTTP
    * @param version API version to use.
    * @param path Signal K path value
+   * @param options Request options (timeout, signal, retry)
    */
-  async get(path: string): Promise<{ [key: string]: unknown }>;
-  async get(version: number, path: string): Promise<{ [key: string]: unknown }>;
-  async get(p1: any, p2?: any) {
+  async get<P extends string>(
+    path: P,
+    options?: HttpOptions,
+  ): Promise<PathResponse<P>>;
+  async get<P extends string>(
+    version: number,
+    path: P,
+    options?: HttpOptions,
+  ): Promise<PathResponse<P>>;
+  async get(p1: any, p2?: any, p3?: any) {
     if (!this.endpoint) {
-      return;
+      throw new NotConnectedError();
     }
     let ep: string;
     let path: string;
+    let opts: HttpOptions | undefined;
     if (typeof p1 === 'number') {
+      opts = p3;
       ep = this.endpoint.replace(new RegExp('/v[0-9]+/'), `/v${p1}/`);
       path = Path.dotToSlash(p2);
     } else {
+      opts = p2;
       ep = this.endpoint;
       path = Path.dotToSlash(p1);
     }
@@ -79,8 +102,19 @@ export class SignalKHttp {
     if (this._token) {
       options.headers = new Headers({ Authorization: `JWT ${this._token}` });
     }
-    const response = await fetch(url, options);
-    return response.json();
+    const response = await this.request(url, options, opts);
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new SignalKError(
+        'Error: Invalid JSON response!',
+        response.status,
+        url,
+        'GET',
+        text,
+      );
+    }
   }
 
   /** Patch for Siganl K API v2 & above PUT handling
@@ -98,28 +132,42 @@ export class SignalKHttp {
   /** Send value to API path via http PUT.
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
    */
   /** Send value to API path via http PUT.
    * @param version API version to use.
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
    */
-  async put(path: string, value: any): Promise<Response>;
-  async put(version: number, path: string, value: any): Promise<Response>;
-  async put(p1: any, p2: string, p3?: any) {
+  async put<P extends string>(
+    path: P,
+    value: PathValueType<P>,
+    options?: HttpOptions,
+  ): Promise<Response>;
+  async put<P extends string>(
+    version: number,
+    path: P,
+    value: PathValueType<P>,
+    options?: HttpOptions,
+  ): Promise<Response>;
+  async put(p1: any, p2: any, p3?: any, p4?: any) {
     if (!this.endpoint) {
-      return;
+      throw new NotConnectedError();
     }
     let ep: string;
     let path: string;
+    let opts: HttpOptions | undefined;
     let value;
     let msg;
     if (typeof p1 === 'number') {
+      opts = p4;
       ep = this.endpoint.replace(new RegExp('/v[0-9]+/'), `/v${p1}/`);
       path = Path.dotToSlash(p2);
       value = p3;
       msg = this.parseApiPut(p1, value);
     } else {
+      opts = p3;
       ep = this.endpoint;
       path = Path.dotToSlash(p1);
       value = p2;
@@ -141,13 +189,14 @@ export class SignalKHttp {
       headers: headers,
       body: JSON.stringify(msg),
     };
-    return await fetch(url, options);
+    return await this.request(url, options, opts);
   }
 
   /** Send value to API path  and supplied context via http PUT.
    * @param context Signal K context
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
    */
   /** Send value to API path  and supplied context via http PUT.
   @param context Signal K context
@@ -155,34 +204,40 @@ export class SignalKHttp {
    * @param context Signal K context
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
   */
-  async putWithContext(
+  async putWithContext<P extends string>(
     context: string,
-    path: string,
-    value: any,
+    path: P,
+    value: PathValueType<P>,
+    options?: HttpOptions,
   ): Promise<Response>;
-  async putWithContext(
+  async putWithContext<P extends string>(
     version: number,
     context: string,
-    path: string,
-    value: any,
+    path: P,
+    value: PathValueType<P>,
+    options?: HttpOptions,
   ): Promise<Response>;
-  async putWithContext(p1: any, p2: any, p3?: any, p4?: any) {
+  async putWithContext(p1: any, p2: any, p3?: any, p4?: any, p5?: any) {
     if (!this.endpoint) {
-      return;
+      throw new NotConnectedError();
     }
     let ep: string;
     let path: string;
+    let opts: HttpOptions | undefined;
     let context: string;
     let value;
     let msg;
     if (typeof p1 === 'number') {
+      opts = p5;
       ep = this.endpoint.replace(new RegExp('/v[0-9]+/'), `/v${p1}/`);
       context = p2 ? `${Path.contextToPath(p2)}/` : '';
       path = Path.dotToSlash(p3);
       value = p4;
       msg = this.parseApiPut(p1, value);
     } else {
+      opts = p4;
       ep = this.endpoint;
       context = p1 ? `${Path.contextToPath(p1)}/` : '';
       path = Path.dotToSlash(p2);
@@ -205,32 +260,46 @@ export class SignalKHttp {
       headers: headers,
       body: JSON.stringify(msg),
     };
-    return await fetch(url, options);
+    return await this.request(url, options, opts);
   }
 
   /** Send value to API path via http POST.
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
    */
   /** Send value to API path via http POST.
    * @param version API version to use.
    * @param path Signal K path value
    * @param value Value to apply to target path.
+   * @param options Request options (timeout, signal, retry)
    */
-  async post(path: string, value: any): Promise<Response>;
-  async post(version: number, path: string, value: any): Promise<Response>;
-  async post(p1: any, p2: string, p3?: any) {
+  async post(
+    path: string,
+    value: any,
+    options?: HttpOptions,
+  ): Promise<Response>;
+  async post(
+    version: number,
+    path: string,
+    value: any,
+    options?: HttpOptions,
+  ): Promise<Response>;
+  async post(p1: any, p2: string, p3?: any, p4?: any) {
     if (!this.endpoint) {
-      return;
+      throw new NotConnectedError();
     }
     let ep: string;
     let path: string;
+    let opts: HttpOptions | undefined;
     let value;
     if (typeof p1 === 'number') {
+      opts = p4;
       ep = this.endpoint.replace(new RegExp('/v[0-9]+/'), `/v${p1}/`);
       path = Path.dotToSlash(p2);
       value = p3;
     } else {
+      opts = p3;
       ep = this.endpoint;
       path = Path.dotToSlash(p1);
       value = p2;
@@ -250,28 +319,37 @@ export class SignalKHttp {
       headers: headers,
       body: JSON.stringify(value),
     };
-    return await fetch(url, options);
+    return await this.request(url, options, opts);
   }
 
   /** Delete value from API path via http DELETE.
    * @param path Signal K path value
+   * @param options Request options (timeout, signal, retry)
    */
   /** Delete value from API path via http DELETE..
    * @param version API version to use.
    * @param path Signal K path value
+   * @param options Request options (timeout, signal, retry)
    */
-  async delete(path: string): Promise<Response>;
-  async delete(version: number, path: string): Promise<Response>;
-  async delete(p1: any, p2?: any) {
+  async delete(path: string, options?: HttpOptions): Promise<Response>;
+  async delete(
+    version: number,
+    path: string,
+    options?: HttpOptions,
+  ): Promise<Response>;
+  async delete(p1: any, p2?: any, p3?: any) {
     if (!this.endpoint) {
-      return;
+      throw new NotConnectedError();
     }
     let ep: string;
     let path: string;
+    let opts: HttpOptions | undefined;
     if (typeof p1 === 'number') {
+      opts = p3;
       ep = this.endpoint.replace(new RegExp('/v[0-9]+/'), `/v${p1}/`);
       path = Path.dotToSlash(p2);
     } else {
+      opts = p2;
       ep = this.endpoint;
       path = Path.dotToSlash(p1);
     }
@@ -279,7 +357,7 @@ export class SignalKHttp {
       path = path.slice(1);
     }
     const url = `${ep}${path}`;
-    debug(`get ${url}`);
+    debug(`delete ${url}`);
     const headers = new Headers({ 'Content-Type': 'application/json' });
     if (this._token) {
       headers.append('Authorization', `JWT ${this._token}`);
@@ -289,7 +367,45 @@ export class SignalKHttp {
       method: 'DELETE',
       headers: headers,
     };
-    return await fetch(url, options);
+    return await this.request(url, options, opts);
+  }
+
+  /** Send HTTP request, retrying once with a renewed token if unauthorized
+   * @private
+   * @param url Request url
+   * @param options Request options
+   * @param httpOptions Timeout, cancellation and retry options
+   * @throws SignalKError if the request is unsuccessful
+   */
+  private async request(
+    url: string,
+    options: RequestInit,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    const method = options.method ?? 'GET';
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this.requestOptions,
+        this.transport.fetch,
+      );
+    let response = await send(options);
+    if (
+      response.status === 401 && this.onUnauthorized &&
+      (await this.onUnauthorized())
+    ) {
+      await response.body?.cancel();
+      const headers = new Headers(options.headers);
+      headers.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: headers });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, method, url);
+    }
+    return response;
   }
 
   /** Raise alarm with supplied name.
@@ -0,0 +1,121 @@
+import { NotConnectedError, TimeoutError } from './errors.ts';
+import { FetchFunction } from './transport.ts';
+import { debug } from './mod.ts';
+
+/** Policy for retrying failed idempotent (GET, HEAD, PUT, DELETE, OPTIONS) requests */
+export interface RetryPolicy {
+  /** Number of times to retry a failed request (default: 0) */
+  attempts?: number;
+  /** Delay (ms) before the first retry (default: 500) */
+  delay?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  factor?: number;
+  /** Maximum delay (ms) between retries (default: 10000) */
+  maxDelay?: number;
+}
+
+/** Options applied to HTTP requests */
+export interface HttpOptions {
+  /** Time (ms) to wait for a response to each attempt (default: no timeout) */
+  timeout?: number;
+  /** Signal used to cancel the request */
+  signal?: AbortSignal;
+  /** Policy for retrying failed idempotent requests */
+  retry?: RetryPolicy;
+}
+
+/** Methods that can safely be retried */
+const IDEMPOTENT = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
+
+/** Response status codes for which a request is retried */
+const RETRY_STATUS = [408, 429, 502, 503, 504];
+
+/** Send HTTP request applying timeout, cancellation and retry options.
+ * Per-call options take precedence over client-wide options.
+ * @param url Request url
+ * @param init Request init
+ * @param options Per-call options
+ * @param defaults Client-wide options
+ * @param fetchFn Function used to send the request (default: global fetch)
+ * @returns Last response received (which may be unsuccessful)
+ * @throws NotConnectedError if the server cannot be reached
+ * @throws TimeoutError if no response is received within the timeout
+ */
+export async function fetchWithOptions(
+  url: string,
+  init: RequestInit,
+  options?: HttpOptions,
+  defaults?: HttpOptions,
+  fetchFn: FetchFunction = fetch,
+): Promise<Response> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const timeout = options?.timeout ?? defaults?.timeout;
+  const signal = options?.signal ?? defaults?.signal;
+  const retry = { ...defaults?.retry, ...options?.retry };
+  const attempts = IDEMPOTENT.includes(method) ? retry.attempts ?? 0 : 0;
+  let delay = retry.delay ?? 500;
+
+  for (let attempt = 0;; attempt++) {
+    signal?.throwIfAborted();
+    const signals = signal ? [signal] : [];
+    if (timeout) {
+      signals.push(AbortSignal.timeout(timeout));
+    }
+    let error: Error;
+    try {
+      const response = await fetchFn(url, {
+        ...init,
+        signal: signals.length ? AbortSignal.any(signals) : undefined,
+      });
+      if (!RETRY_STATUS.includes(response.status) || attempt >= attempts) {
+        return response;
+      }
+      await response.body?.cancel();
+      error = new Error(`status ${response.status}`);
+    } catch (err) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      error = err instanceof DOMException && err.name === 'TimeoutError'
+        ? new TimeoutError(
+          `Error: Request timed out (${timeout! / 1000} sec)!`,
+          0,
+          url,
+          method,
+        )
+        : new NotConnectedError(
+          `Error: Unable to reach ${url}! (${err})`,
+          0,
+          url,
+          method,
+        );
+      if (attempt >= attempts) {
+        throw error;
+      }
+    }
+    debug(
+      `retry ${attempt + 1}/${attempts} ${method} ${url}: ${error.message}`,
+    );
+    await wait(delay, signal);
+    delay = Math.min(delay * (retry.factor ?? 2), retry.maxDelay ?? 10000);
+  }
+}
+
+/** Wait for the specified time
+ * @private
+ * @param ms Time to wait (ms)
+ * @param signal Signal that cancels the wait
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
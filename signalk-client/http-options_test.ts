@@ -0,0 +1,208 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  NotConnectedError,
+  SignalKClient,
+  SignalKError,
+  TimeoutError,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Start a mock server and connect a client to it */
+async function setup(): Promise<{
+  server: SignalKMockServer;
+  client: SignalKClient;
+  requests: Array<string>;
+}> {
+  const server = new SignalKMockServer({
+    tree: { vessels: { 'urn:mrn:signalk:uuid:mock-vessel': { name: 'Mock' } } },
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  await client.connect('127.0.0.1', port, false);
+  const requests: Array<string> = [];
+  server.events.on('request', (req) => {
+    if (req.path.indexOf('/signalk/v1/api/') === 0) {
+      requests.push(req.method);
+    }
+  });
+  return { server, client, requests };
+}
+
+Deno.test('failed idempotent requests are retried', async () => {
+  const { server, client, requests } = await setup();
+  try {
+    server.fail('GET', '/signalk/v1/api/*', 503, 2);
+    const value = await client.api.get('vessels.self.name', {
+      retry: { attempts: 2, delay: 10 },
+    });
+    assertEquals(value as unknown, 'Mock');
+    assertEquals(requests.length, 3);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('request fails once retry attempts are exhausted', async () => {
+  const { server, client, requests } = await setup();
+  try {
+    server.fail('GET', '/signalk/v1/api/*', 503, 3);
+    client.requestOptions = { retry: { attempts: 1, delay: 10 } };
+    const err = await assertRejects(
+      () => client.api.get('vessels.self.name'),
+      SignalKError,
+    );
+    assertEquals(err.status, 503);
+    assertEquals(requests.length, 2);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('POST requests are not retried', async () => {
+  const { server, client, requests } = await setup();
+  try {
+    server.fail('POST', '/signalk/v1/api/*', 503);
+    await assertRejects(
+      () =>
+        client.api.post('vessels.self.name', 'Test', {
+          retry: { attempts: 2, delay: 10 },
+        }),
+      SignalKError,
+    );
+    assertEquals(requests, ['POST']);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('request rejects with TimeoutError when no response is received', async () => {
+  const { server, client } = await setup();
+  try {
+    server.respond('GET', '/signalk/v1/api/*', { delay: 200 }, 1);
+    const err = await assertRejects(
+      () => client.api.get('vessels.self.name', { timeout: 50 }),
+      TimeoutError,
+    );
+    assertEquals(err.method, 'GET');
+    // ** per-call options take precedence over client options **
+    client.requestOptions = { timeout: 50 };
+    server.respond('GET', '/signalk/v1/api/*', { delay: 100, body: 'Slow' }, 1);
+    assertEquals(
+      await client.api.get('vessels.self.name', { timeout: 1000 }) as unknown,
+      'Slow',
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('request is cancelled by the supplied signal', async () => {
+  const { server, client } = await setup();
+  try {
+    server.respond('GET', '/signalk/v1/api/*', { delay: 200 }, 1);
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assertRejects(
+      () => client.api.get('vessels.self.name', { signal: controller.signal }),
+      DOMException,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('v2 API requests apply the client request options', async () => {
+  const { server, client } = await setup();
+  const requests: Array<string> = [];
+  server.events.on('request', (req) => {
+    if (req.path.indexOf('/signalk/v2/api/') === 0) {
+      requests.push(req.path);
+    }
+  });
+  try {
+    client.requestOptions = { retry: { attempts: 1, delay: 10 } };
+    server.respond('GET', '/signalk/v2/api/resources/routes', { body: {} });
+    server.respond('GET', '/signalk/v2/api/history/paths', { body: [] });
+    server.respond('GET', '/signalk/v2/api/vessels/self/navigation/course', {
+      body: {},
+    });
+    server.respond('GET', '/signalk/v2/api/vessels/self/autopilots', {
+      body: {},
+    });
+    [
+      '/signalk/v2/api/resources/routes',
+      '/signalk/v2/api/history/paths',
+      '/signalk/v2/api/vessels/self/navigation/course',
+      '/signalk/v2/api/vessels/self/autopilots',
+    ].forEach((path) => server.fail('GET', path, 503));
+    assertEquals(await client.resources.list('routes'), {});
+    assertEquals(await client.history.getPaths(), []);
+    await client.course.getCourse();
+    assertEquals(await client.autopilot.list(), {});
+    assertEquals(requests.length, 8);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('v2 API per-call options take precedence', async () => {
+  const { server, client } = await setup();
+  try {
+    client.requestOptions = { timeout: 1000 };
+    server.respond('GET', '/signalk/v2/api/resources/routes/*', {
+      delay: 200,
+    });
+    await assertRejects(
+      () => client.resources.get('routes', 'route-id', { timeout: 50 }),
+      TimeoutError,
+    );
+    server.respond('PUT', '/signalk/v2/api/vessels/self/autopilots/*', {
+      delay: 200,
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+    await assertRejects(
+      () =>
+        client.autopilot.setState('auto', undefined, {
+          signal: controller.signal,
+        }),
+      DOMException,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('connectStream() rejects when the server cannot be reached', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    server.respond('GET', '/signalk', { delay: 200 }, 1);
+    await assertRejects(
+      () =>
+        client.connectStream('127.0.0.1', port, false, 'none', {
+          timeout: 50,
+        }),
+      TimeoutError,
+    );
+    await server.stop();
+    await assertRejects(
+      () => client.connectStream('127.0.0.1', port, false, 'none'),
+      NotConnectedError,
+    );
+    await assertRejects(
+      () =>
+        client.connectPlayback('127.0.0.1', port, false, {
+          startTime: '2024-01-01T00:00:00Z',
+        }),
+      NotConnectedError,
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
@@ -0,0 +1,307 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKClient } from './signalk-client.ts';
+import { SignalKStream } from './stream-api.ts';
+import { SignalKDataModel } from './data-model.ts';
+import { Delta, PathValue, StreamMessage, Update } from './types.ts';
+import { debug } from './mod.ts';
+
+/** Connection settings of a managed server */
+export interface ServerConfig {
+  hostname: string;
+  /** default: 3000 */
+  port?: number;
+  /** If true uses https / wss (default: false) */
+  useSSL?: boolean;
+  /** If false the delta stream is not opened (default: true) */
+  stream?: boolean;
+  /** Stream subscription param e.g. 'self', 'all', 'none' */
+  subscribe?: string;
+  /** Name of the server to connect to if this server fails (standby server) */
+  backup?: string;
+}
+
+/** Connection state of a managed server */
+export type ServerState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'failed'
+  | 'standby';
+
+/** Event map of the client stream
+ * @private
+ */
+type StreamEvents = SignalKStream['events'] extends EventEmitter<infer E> ? E
+  : never;
+
+/** Manages connections to multiple Signal K servers */
+export class SignalKManager {
+  /** Managed servers keyed by name
+   * @private
+   */
+  private _servers: Map<string, {
+    config: ServerConfig;
+    client: SignalKClient;
+    state: ServerState;
+    /** Functions to call to remove stream event handlers */
+    detach: Array<() => void>;
+  }> = new Map();
+
+  /** Model containing the values received from all servers (newest values win) */
+  public model: SignalKDataModel = new SignalKDataModel();
+
+  /** Manager events */
+  public events: EventEmitter<{
+    'connect'(ev: { server: string }): void;
+    'close'(ev: { server: string }): void;
+    'error'(ev: { server: string; error: unknown }): void;
+    'message'(ev: { server: string; message: StreamMessage }): void;
+    'failover'(ev: { from: string; to: string }): void;
+  }>;
+
+  constructor() {
+    this.events = new EventEmitter();
+  }
+
+  /** Names of the managed servers */
+  get names(): Array<string> {
+    return Array.from(this._servers.keys());
+  }
+
+  /** Names of the connected servers */
+  get connected(): Array<string> {
+    return this.names.filter((n) => this.state(n) === 'connected');
+  }
+
+  /** Add a server
+   * @param name Name used to identify the server
+   * @param config Server connection settings
+   * @param client Client to use for the server (default: new SignalKClient)
+   * @returns Client for the server
+   */
+  add(
+    name: string,
+    config: ServerConfig,
+    client: SignalKClient = new SignalKClient(),
+  ): SignalKClient {
+    if (this._servers.has(name)) {
+      throw new Error(`Error: Server ${name} already exists!`);
+    }
+    const entry = {
+      config: config,
+      client: client,
+      state: 'disconnected' as ServerState,
+      detach: [] as Array<() => void>,
+    };
+    this._servers.set(name, entry);
+    const on = <K extends 'connect' | 'close' | 'error' | 'message'>(
+      event: K,
+      handler: (ev: Parameters<StreamEvents[K]>[0]) => void,
+    ) => {
+      client.stream.events.on(event, handler);
+      entry.detach.push(() => client.stream.events.off(event, handler));
+    };
+    on('connect', () => {
+      entry.state = 'connected';
+      this.events.emit('connect', { server: name });
+    });
+    on('close', () => this.onStreamClose(name));
+    on(
+      'error',
+      (e: Event) => this.events.emit('error', { server: name, error: e }),
+    );
+    on('message', (msg: StreamMessage) => {
+      if (client.stream.isDelta(msg)) {
+        this.merge(msg);
+      } else if (client.stream.isHello(msg) && !this.model.selfId) {
+        this.model.selfId = msg.self;
+      }
+      this.events.emit('message', { server: name, message: msg });
+    });
+    const reconnectFailed = () => this.failover(name);
+    client.stream.events.on('reconnectFailed', reconnectFailed);
+    entry.detach.push(() =>
+      client.stream.events.off('reconnectFailed', reconnectFailed)
+    );
+    return client;
+  }
+
+  /** Disconnect and remove a server
+   * @param name Server name
+   */
+  remove(name: string) {
+    const entry = this._servers.get(name);
+    if (!entry) {
+      return;
+    }
+    this.disconnect(name);
+    entry.detach.forEach((fn) => fn());
+    this._servers.delete(name);
+  }
+
+  /** Return the client for a server
+   * @param name Server name
+   */
+  get(name: string): SignalKClient | undefined {
+    return this._servers.get(name)?.client;
+  }
+
+  /** Return the connection state of a server
+   * @param name Server name
+   */
+  state(name: string): ServerState | undefined {
+    const entry = this._servers.get(name);
+    if (!entry) {
+      return;
+    }
+    if (entry.state === 'disconnected' && this.isBackup(name)) {
+      return 'standby';
+    }
+    return entry.state;
+  }
+
+  /** Connect to servers. Standby (backup) servers are connected only when failing over.
+   * @param name Name of server to connect to (default: all servers)
+   * @returns Names of the servers connected to (including backup servers)
+   */
+  async connect(name?: string): Promise<Array<string>> {
+    const names = name ? [name] : this.names.filter((n) => !this.isBackup(n));
+    const res: Array<string> = [];
+    for (const n of names) {
+      const connected = await this.connectServer(n, [n]);
+      if (connected) {
+        res.push(connected);
+      }
+    }
+    return res;
+  }
+
+  /** Disconnect from servers
+   * @param name Name of server to disconnect from (default: all servers)
+   */
+  disconnect(name?: string) {
+    const names = name ? [name] : this.names;
+    names.forEach((n) => {
+      const entry = this._servers.get(n);
+      if (!entry || entry.state === 'disconnected') {
+        return;
+      }
+      entry.state = 'disconnected';
+      entry.client.disconnect();
+      debug(`manager: disconnected ${n}`);
+    });
+  }
+
+  /** Connect to a server, failing over to its backup on failure
+   * @private
+   * @param name Server name
+   * @param tried Names of servers already tried (prevents loops)
+   * @returns Name of the server connected to
+   */
+  private async connectServer(
+    name: string,
+    tried: Array<string>,
+  ): Promise<string | undefined> {
+    const entry = this._servers.get(name);
+    if (!entry) {
+      throw new Error(`Error: Server ${name} not found!`);
+    }
+    if (entry.state === 'connected' || entry.state === 'connecting') {
+      return name;
+    }
+    const c = entry.config;
+    entry.state = 'connecting';
+    try {
+      await entry.client.connect(c.hostname, c.port ?? 3000, c.useSSL ?? false);
+      if (c.stream === false) {
+        entry.state = 'connected';
+        this.events.emit('connect', { server: name });
+      } else {
+        entry.client.openStream('', c.subscribe);
+      }
+      debug(`manager: connected ${name}`);
+      return name;
+    } catch (error) {
+      entry.state = 'failed';
+      this.events.emit('error', { server: name, error: error });
+      const backup = c.backup;
+      if (!backup || tried.includes(backup)) {
+        return;
+      }
+      this.events.emit('failover', { from: name, to: backup });
+      return this.connectServer(backup, [...tried, backup]);
+    }
+  }
+
+  /** Handle stream close
+   * @private
+   * @param name Server name
+   */
+  private onStreamClose(name: string) {
+    const entry = this._servers.get(name);
+    if (!entry) {
+      return;
+    }
+    this.events.emit('close', { server: name });
+    // ** ignore requested closes and closes handled by stream reconnection **
+    if (
+      entry.state === 'disconnected' || entry.state === 'failed' ||
+      entry.client.stream.reconnect.enabled
+    ) {
+      return;
+    }
+    this.failover(name);
+  }
+
+  /** Mark a server as failed and connect to its backup
+   * @private
+   * @param name Name of the failed server
+   */
+  private failover(name: string) {
+    const entry = this._servers.get(name);
+    if (!entry) {
+      return;
+    }
+    entry.state = 'failed';
+    const backup = entry.config.backup;
+    if (!backup || !this._servers.has(backup)) {
+      return;
+    }
+    const state = this._servers.get(backup)?.state;
+    if (state === 'connected' || state === 'connecting') {
+      return;
+    }
+    debug(`manager: failover ${name} -> ${backup}`);
+    this.events.emit('failover', { from: name, to: backup });
+    this.connectServer(backup, [name, backup]);
+  }
+
+  /** Returns true if the server is the backup of another server
+   * @private
+   * @param name Server name
+   */
+  private isBackup(name: string): boolean {
+    return Array.from(this._servers.values()).some((s) =>
+      s.config.backup === name
+    );
+  }
+
+  /** Merge delta values into the model where newer than the current value
+   * @private
+   * @param msg Delta message
+   */
+  private merge(msg: Delta) {
+    const updates = msg.updates.map((u: Update) => {
+      const t = u.timestamp ? new Date(u.timestamp).getTime() : NaN;
+      const values = (u.values ?? []).filter((v: PathValue) => {
+        const current = this.model.get(msg.context, v.path);
+        if (!current?.timestamp || isNaN(t)) {
+          return true;
+        }
+        return t >= new Date(current.timestamp).getTime();
+      });
+      return { ...u, values: values };
+    });
+    this.model.update({ context: msg.context, updates: updates });
+  }
+}
@@ -0,0 +1,125 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { SignalKManager } from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Return a port with no server listening on it */
+async function unusedPort(): Promise<number> {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  await server.stop();
+  return port;
+}
+
+/** Wait for the supplied server to connect */
+function connected(manager: SignalKManager, name: string): Promise<void> {
+  return new Promise((resolve) => {
+    const handler = (ev: { server: string }) => {
+      if (ev.server === name) {
+        manager.events.off('connect', handler);
+        resolve();
+      }
+    };
+    manager.events.on('connect', handler);
+  });
+}
+
+Deno.test('manager fails over to the backup when connect fails', async () => {
+  const backup = new SignalKMockServer();
+  const port = await backup.start();
+  const manager = new SignalKManager();
+  manager.add('primary', {
+    hostname: '127.0.0.1',
+    port: await unusedPort(),
+    backup: 'backup',
+  });
+  manager.add('backup', { hostname: '127.0.0.1', port: port });
+  const failovers: Array<unknown> = [];
+  manager.events.on('failover', (ev) => failovers.push(ev));
+  try {
+    assertEquals(manager.state('backup'), 'standby');
+    const backupConnected = connected(manager, 'backup');
+    assertEquals(await manager.connect(), ['backup']);
+    await backupConnected;
+    assertEquals(failovers, [{ from: 'primary', to: 'backup' }]);
+    assertEquals(manager.state('primary'), 'failed');
+    assertEquals(manager.connected, ['backup']);
+  } finally {
+    manager.disconnect();
+    await backup.stop();
+  }
+});
+
+Deno.test('manager fails over when the stream is lost', async () => {
+  const primary = new SignalKMockServer();
+  const backup = new SignalKMockServer();
+  const manager = new SignalKManager();
+  manager.add('primary', {
+    hostname: '127.0.0.1',
+    port: await primary.start(),
+    subscribe: 'none',
+    backup: 'backup',
+  });
+  manager.add('backup', {
+    hostname: '127.0.0.1',
+    port: await backup.start(),
+    subscribe: 'none',
+  });
+  try {
+    const primaryConnected = connected(manager, 'primary');
+    await manager.connect();
+    await primaryConnected;
+    assertEquals(manager.connected, ['primary']);
+
+    const backupConnected = connected(manager, 'backup');
+    primary.closeConnections();
+    await backupConnected;
+    assertEquals(manager.state('primary'), 'failed');
+    assertEquals(manager.connected, ['backup']);
+  } finally {
+    manager.disconnect();
+    await primary.stop();
+    await backup.stop();
+  }
+});
+
+Deno.test('manager model holds the newest values from all servers', async () => {
+  const a = new SignalKMockServer();
+  const b = new SignalKMockServer();
+  const manager = new SignalKManager();
+  manager.add('a', { hostname: '127.0.0.1', port: await a.start() });
+  manager.add('b', { hostname: '127.0.0.1', port: await b.start() });
+  const delta = (timestamp: string, value: number) => ({
+    context: 'vessels.urn:mrn:signalk:uuid:mock-vessel',
+    updates: [{
+      timestamp: timestamp,
+      values: [{ path: 'navigation.speedOverGround', value: value }],
+    }],
+  });
+  try {
+    const both = Promise.all([
+      connected(manager, 'a'),
+      connected(manager, 'b'),
+    ]);
+    await manager.connect();
+    await both;
+    let received = 0;
+    const messages = new Promise<void>((resolve) =>
+      manager.events.on('message', (ev) => {
+        if (ev.message && 'updates' in ev.message && ++received === 2) {
+          resolve();
+        }
+      })
+    );
+    a.pushDelta(delta('2024-01-01T00:00:02.000Z', 2));
+    b.pushDelta(delta('2024-01-01T00:00:01.000Z', 1));
+    await messages;
+    assertEquals(
+      manager.model.get('self', 'navigation.speedOverGround')?.value,
+      2,
+    );
+  } finally {
+    manager.disconnect();
+    await a.stop();
+    await b.stop();
+  }
+});
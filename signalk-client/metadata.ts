@@ -0,0 +1,166 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKHttp } from './http-api.ts';
+import { Delta, Meta, PathMeta, Update } from './types.ts';
+import { NotFoundError } from './errors.ts';
+import { debug } from './mod.ts';
+
+/** Metadata change event */
+export interface MetaEvent {
+  context: string;
+  path: string;
+  meta: Meta;
+}
+
+/** Signal K path metadata cache */
+export class SignalKMetadata {
+  /** Metadata keyed by context and path
+   * @private
+   */
+  private _data: Map<string, Map<string, Meta>> = new Map();
+
+  /** Context of the self vessel
+   * @private
+   */
+  private _selfId = '';
+
+  /** Metadata events */
+  public events: EventEmitter<{
+    'meta'(ev: MetaEvent): void;
+  }>;
+
+  constructor() {
+    this.events = new EventEmitter();
+  }
+
+  /** Get context of the self vessel */
+  get selfId(): string {
+    return this._selfId;
+  }
+
+  /** Set context of the self vessel
+   * @param val Self context value e.g. vessels.urn:mrn:imo:mmsi:123456789
+   */
+  set selfId(val: string) {
+    this._selfId = val;
+    const self = this._data.get('vessels.self');
+    if (val && self) {
+      this._data.delete('vessels.self');
+      const entries = this.context(val, true) as Map<string, Meta>;
+      self.forEach((m, path) => {
+        entries.set(path, { ...m, ...entries.get(path) });
+      });
+    }
+  }
+
+  /** Return cached metadata for the supplied context and path
+   * @param context Signal K context
+   * @param path Signal K path
+   */
+  get(context: string, path: string): Meta | undefined {
+    const m = this.context(context)?.get(path);
+    return m ? { ...m } : undefined;
+  }
+
+  /** Merge metadata into the cache and emit a 'meta' event
+   * @param context Signal K context
+   * @param path Signal K path
+   * @param meta Metadata values
+   */
+  set(context: string, path: string, meta: Meta) {
+    const entries = this.context(context, true) as Map<string, Meta>;
+    const m = { ...entries.get(path), ...meta };
+    entries.set(path, m);
+    this.events.emit('meta', {
+      context: this.resolve(context),
+      path: path,
+      meta: { ...m },
+    });
+  }
+
+  /** Return metadata for the supplied context and path, retrieving it via the HTTP API if not cached
+   * @param api Connected HTTP API instance
+   * @param context Signal K context
+   * @param path Signal K path
+   * @param refresh true = always retrieve from the server
+   */
+  async load(
+    api: SignalKHttp,
+    context: string,
+    path: string,
+    refresh = false,
+  ): Promise<Meta | undefined> {
+    if (!refresh) {
+      const m = this.get(context, path);
+      if (m) {
+        return m;
+      }
+    }
+    debug(`load meta: ${context} ${path}`);
+    let meta: { [key: string]: unknown } | undefined;
+    try {
+      meta = await api.getMeta(context, path);
+    } catch (err) {
+      // ** path has no metadata **
+      if (!(err instanceof NotFoundError)) {
+        throw err;
+      }
+    }
+    if (meta && typeof meta === 'object') {
+      this.set(context, path, meta as Meta);
+    }
+    return this.get(context, path);
+  }
+
+  /** Merge the meta entries contained in a delta message into the cache
+   * @param msg Delta message
+   */
+  update(msg: Delta) {
+    if (!msg || !Array.isArray(msg.updates)) {
+      return;
+    }
+    const context = msg.context ?? 'vessels.self';
+    msg.updates.forEach((u: Update) => {
+      if (!Array.isArray(u.meta)) {
+        return;
+      }
+      u.meta.forEach((m: PathMeta) => {
+        if (m && m.path && m.value && typeof m.value === 'object') {
+          this.set(context, m.path, m.value);
+        }
+      });
+    });
+  }
+
+  /** Remove all entries from the cache */
+  clear() {
+    this._data.clear();
+  }
+
+  /** Resolve 'self' references to the self context
+   * @private
+   * @param context Signal K context
+   */
+  private resolve(context: string): string {
+    return context === 'self' || context === 'vessels.self'
+      ? this._selfId || 'vessels.self'
+      : context;
+  }
+
+  /** Return the entries for a context
+   * @private
+   * @param context Signal K context
+   * @param create Create the context entry if it does not exist
+   */
+  private context(
+    context: string,
+    create = false,
+  ): Map<string, Meta> | undefined {
+    context = this.resolve(context);
+    let entries = this._data.get(context);
+    if (!entries && create) {
+      entries = new Map();
+      this._data.set(context, entries);
+    }
+    return entries;
+  }
+}
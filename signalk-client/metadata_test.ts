@@ -0,0 +1,97 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  MetaEvent,
+  SignalKClient,
+  SignalKMetadata,
+  SignalKStream,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+Deno.test('update() caches meta deltas and emits meta events', () => {
+  const meta = new SignalKMetadata();
+  const events: Array<MetaEvent> = [];
+  meta.events.on('meta', (ev) => events.push(ev));
+  meta.update({
+    context: 'vessels.self',
+    updates: [{
+      meta: [{
+        path: 'environment.depth.belowKeel',
+        value: { units: 'm', description: 'Depth below keel' },
+      }],
+    }],
+  });
+  meta.update({
+    context: 'vessels.self',
+    updates: [{
+      meta: [{
+        path: 'environment.depth.belowKeel',
+        value: { displayName: 'Depth' },
+      }],
+    }],
+  });
+  assertEquals(meta.get('self', 'environment.depth.belowKeel'), {
+    units: 'm',
+    description: 'Depth below keel',
+    displayName: 'Depth',
+  });
+  assertEquals(events.length, 2);
+  assertEquals(events[1].context, 'vessels.self');
+
+  meta.selfId = 'vessels.urn:mrn:imo:mmsi:123456789';
+  assertEquals(
+    meta.get(
+      'vessels.urn:mrn:imo:mmsi:123456789',
+      'environment.depth.belowKeel',
+    )
+      ?.units,
+    'm',
+  );
+});
+
+Deno.test('load() retrieves and caches metadata via the HTTP API', async () => {
+  const server = new SignalKMockServer({
+    tree: {
+      self: 'vessels.urn:mrn:signalk:uuid:mock-vessel',
+      vessels: {
+        'urn:mrn:signalk:uuid:mock-vessel': {
+          custom: { speed: { value: 1, meta: { units: 'm/s' } } },
+        },
+      },
+    },
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  let requests = 0;
+  server.events.on('request', (req) => {
+    if (req.path.endsWith('/meta')) {
+      requests++;
+    }
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const meta = new SignalKMetadata();
+    assertEquals(await meta.load(client.api, 'self', 'custom.speed'), {
+      units: 'm/s',
+    });
+    await meta.load(client.api, 'self', 'custom.speed');
+    assertEquals(requests, 1);
+    await meta.load(client.api, 'self', 'custom.speed', true);
+    assertEquals(requests, 2);
+    assertEquals(
+      await meta.load(client.api, 'self', 'custom.other'),
+      undefined,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('stream applies units from received metadata', () => {
+  const stream = new SignalKStream();
+  stream.inject(JSON.stringify({
+    context: 'vessels.self',
+    updates: [{ meta: [{ path: 'custom.speed', value: { units: 'm/s' } }] }],
+  }));
+  assertEquals(stream.meta.get('self', 'custom.speed')?.units, 'm/s');
+  assertEquals(stream.units.unitsFor('custom.speed'), 'm/s');
+});
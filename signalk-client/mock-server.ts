@@ -0,0 +1,813 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { Delta, PathValue } from './types.ts';
+import { debug } from './mod.ts';
+
+/** Options for the mock server */
+export interface MockServerOptions {
+  /** Port to listen on (default: 0 = any available port) */
+  port?: number;
+  /** Hostname to listen on (default: 127.0.0.1) */
+  hostname?: string;
+  /** Context of the self vessel (default: vessels.urn:mrn:signalk:uuid:mock-vessel) */
+  self?: string;
+  /** Signal K full format data tree served by the v1 API */
+  tree?: { [key: string]: unknown };
+  /** Users able to login keyed by username (default: any username / password is accepted) */
+  users?: { [username: string]: string };
+  /** If true, API requests require a valid token (default: false) */
+  security?: boolean;
+  /** Lifetime of issued tokens in seconds (default: 3600) */
+  tokenTtl?: number;
+}
+
+/** Request received by the mock server */
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+/** Scripted response */
+export type MockResponse = Response | {
+  status?: number;
+  body?: unknown;
+  headers?: HeadersInit;
+  /** Time to wait before responding (ms) */
+  delay?: number;
+};
+
+/** Function returning a scripted response */
+export type MockHandler = (
+  req: MockRequest,
+) => MockResponse | Promise<MockResponse>;
+
+/** Pending access request
+ * @private
+ */
+interface MockAccessRequest {
+  requestId: string;
+  clientId: string;
+  description: string;
+  permissions: string;
+  state: 'PENDING' | 'COMPLETED';
+  permission?: 'APPROVED' | 'DENIED';
+  token?: string;
+  socket?: WebSocket;
+  /** id of the stream request that submitted the access request */
+  streamRequestId?: string;
+}
+
+/** In-process Signal K server for testing */
+export class SignalKMockServer {
+  /** HTTP server
+   * @private
+   */
+  private _server: Deno.HttpServer | undefined;
+
+  /** Server options
+   * @private
+   */
+  private _options: MockServerOptions;
+
+  /** Port the server is listening on
+   * @private
+   */
+  private _port = 0;
+
+  /** Connected stream sockets
+   * @private
+   */
+  private _sockets: Set<WebSocket> = new Set();
+
+  /** Scripted responses
+   * @private
+   */
+  private _scripts: Array<{
+    method: string;
+    pattern: RegExp;
+    response: MockResponse | MockHandler;
+    times: number;
+  }> = [];
+
+  /** Issued tokens
+   * @private
+   */
+  private _tokens: Set<string> = new Set();
+
+  /** Access requests keyed by requestId
+   * @private
+   */
+  private _accessRequests: Map<string, MockAccessRequest> = new Map();
+
+  /** Context of the self vessel */
+  public self: string;
+
+  /** Signal K full format data tree served by the v1 API */
+  public tree: { [key: string]: unknown };
+
+  /** Messages received from stream clients */
+  public received: Array<unknown> = [];
+
+  /** Mock server events */
+  public events: EventEmitter<{
+    'request'(req: MockRequest): void;
+    'connect'(socket: WebSocket): void;
+    'message'(msg: unknown): void;
+    'accessRequest'(req: { requestId: string; clientId: string }): void;
+  }>;
+
+  /** @param options Mock server options */
+  constructor(options?: MockServerOptions) {
+    this.events = new EventEmitter();
+    this._options = options ?? {};
+    this.self = this._options.self ??
+      'vessels.urn:mrn:signalk:uuid:mock-vessel';
+    this.tree = this._options.tree ?? {
+      version: '1.7.0',
+      self: this.self,
+      vessels: {
+        [this.self.slice('vessels.'.length)]: { name: 'Mock Vessel' },
+      },
+    };
+  }
+
+  /** Port the server is listening on */
+  get port(): number {
+    return this._port;
+  }
+
+  /** Hostname the server is listening on */
+  get hostname(): string {
+    return this._options.hostname ?? '127.0.0.1';
+  }
+
+  /** Server url e.g. http://127.0.0.1:3000 */
+  get url(): string {
+    return `http://${this.hostname}:${this._port}`;
+  }
+
+  /** Number of connected stream clients */
+  get connections(): number {
+    return this._sockets.size;
+  }
+
+  /** Start the server
+   * @returns Port the server is listening on
+   */
+  start(): Promise<number> {
+    if (this._server) {
+      return Promise.resolve(this._port);
+    }
+    return new Promise((resolve) => {
+      this._server = Deno.serve(
+        {
+          port: this._options.port ?? 0,
+          hostname: this.hostname,
+          onListen: (addr) => {
+            this._port = addr.port;
+            debug(`mock server listening: ${this.url}`);
+            resolve(addr.port);
+          },
+        },
+        (req) => this.handle(req),
+      );
+    });
+  }
+
+  /** Stop the server and close all stream connections */
+  async stop() {
+    this.closeConnections();
+    if (this._server) {
+      await this._server.shutdown();
+      this._server = undefined;
+    }
+  }
+
+  /** Close all stream connections (e.g. to simulate a dropped connection)
+   * @param code WebSocket close code
+   */
+  closeConnections(code = 1000) {
+    this._sockets.forEach((s) => {
+      try {
+        s.close(code);
+      } catch {
+        // ignore sockets already closing
+      }
+    });
+    this._sockets.clear();
+  }
+
+  /** Script the response to requests matching the supplied method and path
+   * @param method HTTP method or '*' for any method
+   * @param path Request path, can contain wildcards e.g. '/signalk/v2/api/resources/*'
+   * @param response Response or function returning the response
+   * @param times Number of requests to respond to (default: Infinity)
+   */
+  respond(
+    method: string,
+    path: string,
+    response: MockResponse | MockHandler,
+    times = Infinity,
+  ) {
+    this._scripts.unshift({
+      method: method.toUpperCase(),
+      pattern: new RegExp(
+        '^' + path.split('*').map((p) =>
+          p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        ).join('.*') + '$',
+      ),
+      response: response,
+      times: times,
+    });
+  }
+
+  /** Fail requests matching the supplied method and path
+   * @param method HTTP method or '*' for any method
+   * @param path Request path, can contain wildcards
+   * @param status HTTP status code to return (default: 500)
+   * @param times Number of requests to fail (default: 1)
+   */
+  fail(method: string, path: string, status = 500, times = 1) {
+    this.respond(
+      method,
+      path,
+      { status: status, body: { message: 'Mock failure' } },
+      times,
+    );
+  }
+
+  /** Remove all scripted responses, received messages and access requests */
+  reset() {
+    this._scripts = [];
+    this.received = [];
+    this._accessRequests.clear();
+  }
+
+  /** Apply a delta to the data tree and send it to all stream clients
+   * @param delta Delta message
+   */
+  pushDelta(delta: Delta) {
+    this.applyDelta(delta);
+    this.send(delta);
+  }
+
+  /** Apply values to the data tree and send them to all stream clients
+   * @param path Signal K path
+   * @param value Value
+   * @param context Signal K context (default: vessels.self)
+   */
+  pushValue(path: string, value: unknown, context = 'vessels.self') {
+    this.pushValues([{ path: path, value: value }], context);
+  }
+
+  /** Apply values to the data tree and send them to all stream clients
+   * @param values Path / value pairs
+   * @param context Signal K context (default: vessels.self)
+   */
+  pushValues(values: Array<PathValue>, context = 'vessels.self') {
+    this.pushDelta({
+      context: this.resolve(context),
+      updates: [
+        {
+          $source: 'mock',
+          timestamp: new Date().toISOString(),
+          values: values,
+        },
+      ],
+    });
+  }
+
+  /** Send a message to all stream clients
+   * @param msg Message to send
+   */
+  send(msg: unknown) {
+    const data = typeof msg === 'string' ? msg : JSON.stringify(msg);
+    this._sockets.forEach((s) => {
+      if (s.readyState === WebSocket.OPEN) {
+        s.send(data);
+      }
+    });
+  }
+
+  /** Approve a pending access request
+   * @param id requestId or clientId of the access request
+   * @param permissions Permissions granted (default: requested permissions)
+   * @returns Token issued to the client
+   */
+  approveAccess(id: string, permissions?: string): string {
+    const req = this.getAccessRequest(id);
+    req.state = 'COMPLETED';
+    req.permission = 'APPROVED';
+    req.permissions = permissions ?? req.permissions;
+    req.token = this.issueToken(req.clientId);
+    this.notifyAccessRequest(req);
+    return req.token;
+  }
+
+  /** Deny a pending access request
+   * @param id requestId or clientId of the access request
+   */
+  denyAccess(id: string) {
+    const req = this.getAccessRequest(id);
+    req.state = 'COMPLETED';
+    req.permission = 'DENIED';
+    this.notifyAccessRequest(req);
+  }
+
+  /** Issue a token (unsigned JWT containing the expiry time)
+   * @param id Id of the user / device
+   * @param ttl Lifetime of the token in seconds (default: tokenTtl option)
+   */
+  issueToken(id: string, ttl?: number): string {
+    const enc = (v: unknown) =>
+      btoa(JSON.stringify(v)).replace(/=+$/, '').replace(/\+/g, '-').replace(
+        /\//g,
+        '_',
+      );
+    const now = Math.floor(Date.now() / 1000);
+    const token = [
+      enc({ alg: 'none', typ: 'JWT' }),
+      enc({
+        id: id,
+        iat: now,
+        exp: now + (ttl ?? this._options.tokenTtl ?? 3600),
+      }),
+      crypto.randomUUID(),
+    ].join('.');
+    this._tokens.add(token);
+    return token;
+  }
+
+  /** Revoke a token
+   * @param token Token to revoke
+   */
+  revokeToken(token: string) {
+    this._tokens.delete(token);
+  }
+
+  /** Returns true if the token was issued by the server and has not expired
+   * @param token Token to check
+   */
+  isValidToken(token?: string): boolean {
+    if (!token || !this._tokens.has(token)) {
+      return false;
+    }
+    const payload = this.tokenPayload(token);
+    return payload ? payload.exp * 1000 > Date.now() : false;
+  }
+
+  /** Decode the payload of a token issued by the server
+   * @private
+   * @param token Token to decode
+   */
+  private tokenPayload(
+    token: string,
+  ): { id: string; iat: number; exp: number } | undefined {
+    try {
+      return JSON.parse(
+        atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')),
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Handle HTTP request
+   * @private
+   * @param request Received request
+   */
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    debug(`mock server: ${request.method} ${path}`);
+
+    if (request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+      return this.handleSocket(request, url);
+    }
+
+    let body: unknown;
+    try {
+      const text = await request.text();
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      body = undefined;
+    }
+    const req: MockRequest = {
+      method: request.method,
+      path: path,
+      query: url.searchParams,
+      headers: request.headers,
+      body: body,
+    };
+    this.events.emit('request', req);
+
+    const script = this._scripts.find((s) =>
+      (s.method === '*' || s.method === req.method) && s.pattern.test(path)
+    );
+    if (script) {
+      script.times--;
+      if (script.times <= 0) {
+        this._scripts.splice(this._scripts.indexOf(script), 1);
+      }
+      const res = typeof script.response === 'function'
+        ? await script.response(req)
+        : script.response;
+      return this.toResponse(res);
+    }
+    return this.route(req, this.requestToken(request, url));
+  }
+
+  /** Handle requests to the built-in endpoints
+   * @private
+   * @param req Received request
+   * @param token Token supplied with the request
+   */
+  private route(req: MockRequest, token?: string): Response {
+    const path = req.path.replace(/\/+$/, '');
+    const body = (req.body ?? {}) as { [key: string]: unknown };
+
+    if (req.method === 'GET' && path === '/signalk') {
+      return this.json(this.hello());
+    }
+    if (path === '/skServer/loginStatus') {
+      return this.json({
+        status: this.isValidToken(token) ? 'loggedIn' : 'notLoggedIn',
+        authenticationRequired: this._options.security ? true : false,
+        readOnlyAccess: false,
+      });
+    }
+    if (req.method === 'POST' && path === '/signalk/v1/auth/login') {
+      const users = this._options.users;
+      const username = body.username as string;
+      if (!username || (users && users[username] !== body.password)) {
+        return this.json({ message: 'Invalid username / password' }, 401);
+      }
+      return this.tokenResponse(this.issueToken(username));
+    }
+    if (req.method === 'POST' && path === '/signalk/v1/auth/validate') {
+      if (!this.isValidToken(token)) {
+        return this.json({ message: 'Invalid token' }, 401);
+      }
+      const id = this.tokenPayload(token as string)?.id ?? '';
+      this.revokeToken(token as string);
+      return this.tokenResponse(this.issueToken(id));
+    }
+    if (req.method === 'PUT' && path === '/signalk/v1/auth/logout') {
+      if (token) {
+        this.revokeToken(token);
+      }
+      return this.json({ message: 'Logged out' });
+    }
+    if (req.method === 'POST' && path === '/signalk/v1/access/requests') {
+      const ar = this.createAccessRequest(body);
+      return this.json(this.accessResponse(ar), 202);
+    }
+    if (req.method === 'GET' && path.indexOf('/signalk/v1/requests/') === 0) {
+      const ar = this._accessRequests.get(path.split('/').slice(-1)[0]);
+      return ar
+        ? this.json(this.accessResponse(ar))
+        : this.json({ message: 'Request not found' }, 404);
+    }
+    if (path.indexOf('/signalk/v1/api') === 0) {
+      if (this._options.security && !this.isValidToken(token)) {
+        return this.json({ message: 'Unauthorized' }, 401);
+      }
+      const parts = path.split('/').slice(4).filter((p) => p);
+      // ** /self returns the self identifier **
+      if (req.method === 'GET' && parts.length === 1 && parts[0] === 'self') {
+        return this.json(this.self);
+      }
+      if (parts[0] === 'vessels' && parts[1] === 'self') {
+        parts[1] = this.self.slice(this.self.indexOf('.') + 1);
+      }
+      if (req.method === 'GET') {
+        const value = parts.reduce(
+          (node: unknown, key) =>
+            node && typeof node === 'object'
+              ? (node as { [key: string]: unknown })[key]
+              : undefined,
+          this.tree as unknown,
+        );
+        return typeof value === 'undefined'
+          ? this.json({ message: 'Not found' }, 404)
+          : this.json(value);
+      }
+      if (req.method === 'PUT' && parts.length > 2) {
+        this.pushValue(
+          parts.slice(2).join('.'),
+          body.value,
+          parts.slice(0, 2).join('.'),
+        );
+        return this.json({ state: 'COMPLETED', statusCode: 200 });
+      }
+    }
+    return this.json({ message: 'Not found' }, 404);
+  }
+
+  /** Handle stream connection
+   * @private
+   * @param request Received request
+   * @param url Request url
+   */
+  private handleSocket(request: Request, url: URL): Response {
+    const { socket, response } = Deno.upgradeWebSocket(request);
+    const playback = url.pathname.indexOf('/playback') !== -1;
+    socket.onopen = () => {
+      this._sockets.add(socket);
+      const hello: { [key: string]: unknown } = {
+        name: 'signalk-mock-server',
+        version: '2.0.0',
+        self: this.self,
+        roles: ['master', 'main'],
+        timestamp: new Date().toISOString(),
+      };
+      if (playback) {
+        hello.startTime = url.searchParams.get('startTime') ??
+          new Date().toISOString();
+        hello.playbackRate = Number(
+          url.searchParams.get('playbackRate') ?? 1,
+        );
+      }
+      socket.send(JSON.stringify(hello));
+      this.events.emit('connect', socket);
+    };
+    socket.onclose = () => {
+      this._sockets.delete(socket);
+    };
+    socket.onmessage = (e: MessageEvent) => {
+      let msg: { [key: string]: unknown };
+      try {
+        msg = JSON.parse(e.data);
+      } catch {
+        return;
+      }
+      this.received.push(msg);
+      this.events.emit('message', msg);
+      if (typeof msg.requestId === 'string') {
+        this.handleStreamRequest(socket, msg);
+      }
+    };
+    return response;
+  }
+
+  /** Handle request received on the stream
+   * @private
+   * @param socket Stream socket
+   * @param msg Received request
+   */
+  private handleStreamRequest(
+    socket: WebSocket,
+    msg: { [key: string]: unknown },
+  ) {
+    const requestId = msg.requestId as string;
+    const reply = (res: { [key: string]: unknown }) =>
+      socket.send(JSON.stringify({ requestId: requestId, ...res }));
+
+    if (msg.login && typeof msg.login === 'object') {
+      const login = msg.login as { username?: string; password?: string };
+      const users = this._options.users;
+      if (
+        !login.username || (users && users[login.username] !== login.password)
+      ) {
+        reply({ state: 'COMPLETED', statusCode: 401 });
+      } else {
+        reply({
+          state: 'COMPLETED',
+          statusCode: 200,
+          login: {
+            token: this.issueToken(login.username),
+            timeToLive: this._options.tokenTtl ?? 3600,
+          },
+        });
+      }
+    } else if (msg.put && typeof msg.put === 'object') {
+      const put = msg.put as { path: string; value: unknown };
+      this.pushValue(
+        put.path,
+        put.value,
+        (msg.context as string) ?? 'vessels.self',
+      );
+      reply({ state: 'COMPLETED', statusCode: 200 });
+    } else if (msg.accessRequest && typeof msg.accessRequest === 'object') {
+      const ar = this.createAccessRequest(
+        msg.accessRequest as { [key: string]: unknown },
+      );
+      ar.socket = socket;
+      ar.streamRequestId = requestId;
+      reply({
+        state: 'PENDING',
+        statusCode: 202,
+        href: `/signalk/v1/requests/${ar.requestId}`,
+      });
+    }
+  }
+
+  /** Create a pending access request
+   * @private
+   * @param body Access request parameters
+   */
+  private createAccessRequest(
+    body: { [key: string]: unknown },
+  ): MockAccessRequest {
+    const ar: MockAccessRequest = {
+      requestId: crypto.randomUUID(),
+      clientId: (body.clientId as string) ?? crypto.randomUUID(),
+      description: (body.description as string) ?? '',
+      permissions: (body.permissions as string) ?? 'readonly',
+      state: 'PENDING',
+    };
+    this._accessRequests.set(ar.requestId, ar);
+    this.events.emit('accessRequest', {
+      requestId: ar.requestId,
+      clientId: ar.clientId,
+    });
+    return ar;
+  }
+
+  /** Return access request identified by requestId or clientId or throw if not found
+   * @private
+   * @param id requestId or clientId
+   */
+  private getAccessRequest(id: string): MockAccessRequest {
+    const req = this._accessRequests.get(id) ??
+      Array.from(this._accessRequests.values()).find((r) =>
+        r.clientId === id && r.state === 'PENDING'
+      );
+    if (!req) {
+      throw new Error(`Error: No access request for ${id}!`);
+    }
+    return req;
+  }
+
+  /** Send the result of an access request to the stream client that submitted it
+   * @private
+   * @param req Access request
+   */
+  private notifyAccessRequest(req: MockAccessRequest) {
+    if (req.socket && req.socket.readyState === WebSocket.OPEN) {
+      req.socket.send(
+        JSON.stringify({
+          ...this.accessResponse(req),
+          requestId: req.streamRequestId,
+        }),
+      );
+    }
+  }
+
+  /** Return the access request status response
+   * @private
+   * @param req Access request
+   */
+  private accessResponse(req: MockAccessRequest): { [key: string]: unknown } {
+    const res: { [key: string]: unknown } = {
+      requestId: req.requestId,
+      state: req.state,
+      statusCode: req.state === 'PENDING' ? 202 : 200,
+      href: `/signalk/v1/requests/${req.requestId}`,
+    };
+    if (req.permission) {
+      res.accessRequest = {
+        permission: req.permission,
+        token: req.token,
+        expirationTime: req.token
+          ? new Date(
+            Date.now() + (this._options.tokenTtl ?? 3600) * 1000,
+          ).toISOString()
+          : undefined,
+      };
+    }
+    return res;
+  }
+
+  /** Apply delta values to the data tree
+   * @private
+   * @param delta Delta message
+   */
+  private applyDelta(delta: Delta) {
+    const context = this.resolve(delta.context);
+    const idx = context.indexOf('.');
+    const group = context.slice(0, idx);
+    const id = context.slice(idx + 1);
+    const groupNode = (this.tree[group] ?? {}) as { [key: string]: unknown };
+    this.tree[group] = groupNode;
+    const root = (groupNode[id] ?? {}) as { [key: string]: unknown };
+    groupNode[id] = root;
+
+    delta.updates.forEach((u) => {
+      (u.values ?? []).forEach((v) => {
+        if (!v.path) {
+          if (v.value && typeof v.value === 'object') {
+            Object.assign(root, v.value);
+          }
+          return;
+        }
+        const keys = v.path.split('.');
+        let node = root;
+        keys.slice(0, -1).forEach((k) => {
+          if (!node[k] || typeof node[k] !== 'object') {
+            node[k] = {};
+          }
+          node = node[k] as { [key: string]: unknown };
+        });
+        node[keys[keys.length - 1]] = {
+          value: v.value,
+          timestamp: u.timestamp,
+          $source: u.$source,
+        };
+      });
+    });
+  }
+
+  /** Return the hello response
+   * @private
+   */
+  private hello(): { [key: string]: unknown } {
+    const host = `${this.hostname}:${this._port}`;
+    return {
+      endpoints: {
+        v1: {
+          version: '1.7.0',
+          'signalk-http': `http://${host}/signalk/v1/api/`,
+          'signalk-ws': `ws://${host}/signalk/v1/stream`,
+        },
+      },
+      server: {
+        id: 'signalk-mock-server',
+        version: '2.0.0',
+      },
+    };
+  }
+
+  /** Return the token supplied with a request
+   * @private
+   * @param request Received request
+   * @param url Request url
+   */
+  private requestToken(request: Request, url: URL): string | undefined {
+    const auth = request.headers.get('authorization');
+    if (auth) {
+      return auth.split(' ').slice(-1)[0];
+    }
+    const cookie = request.headers.get('cookie')?.split(';').find((c) =>
+      c.trim().indexOf('JAUTHENTICATION=') === 0
+    );
+    if (cookie) {
+      return cookie.split('=')[1];
+    }
+    return url.searchParams.get('token') ?? undefined;
+  }
+
+  /** Return a login / validate response setting the authentication cookie
+   * @private
+   * @param token Issued token
+   */
+  private tokenResponse(token: string): Response {
+    return this.json(
+      { token: token, timeToLive: this._options.tokenTtl ?? 3600 },
+      200,
+      { 'Set-Cookie': `JAUTHENTICATION=${token}; Path=/; HttpOnly` },
+    );
+  }
+
+  /** Convert a scripted response to a Response
+   * @private
+   * @param res Scripted response
+   */
+  private async toResponse(res: MockResponse): Promise<Response> {
+    if (res instanceof Response) {
+      return res;
+    }
+    if (res.delay) {
+      await new Promise((resolve) => setTimeout(resolve, res.delay));
+    }
+    return this.json(res.body ?? {}, res.status ?? 200, res.headers);
+  }
+
+  /** Return a JSON response
+   * @private
+   * @param body Response body
+   * @param status HTTP status code
+   * @param headers Additional headers
+   */
+  private json(
+    body: unknown,
+    status = 200,
+    headers?: HeadersInit,
+  ): Response {
+    const h = new Headers(headers);
+    h.set('Content-Type', 'application/json');
+    return new Response(JSON.stringify(body), { status: status, headers: h });
+  }
+
+  /** Resolve 'self' references to the self context
+   * @private
+   * @param context Signal K context
+   */
+  private resolve(context: string): string {
+    return context === 'self' || context === 'vessels.self'
+      ? this.self
+      : context;
+  }
+}
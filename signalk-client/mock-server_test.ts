@@ -0,0 +1,161 @@
+import {
+  assert,
+  assertEquals,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Send a request to the mock server and return the status and parsed body */
+async function request(
+  server: SignalKMockServer,
+  method: string,
+  path: string,
+  body?: unknown,
+  token?: string,
+): Promise<{ status: number; body: unknown; headers: Headers }> {
+  const headers = new Headers({ 'Content-Type': 'application/json' });
+  if (token) {
+    headers.set('Authorization', `JWT ${token}`);
+  }
+  const response = await fetch(`${server.url}${path}`, {
+    method: method,
+    headers: headers,
+    body: typeof body === 'undefined' ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return {
+    status: response.status,
+    body: text ? JSON.parse(text) : undefined,
+    headers: response.headers,
+  };
+}
+
+Deno.test('mock server serves hello and the data tree', async () => {
+  const server = new SignalKMockServer({
+    tree: { vessels: { 'urn:mrn:signalk:uuid:mock-vessel': { name: 'Mock' } } },
+  });
+  await server.start();
+  try {
+    const hello = await request(server, 'GET', '/signalk');
+    assertEquals(hello.status, 200);
+    assert((hello.body as { endpoints: unknown }).endpoints);
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/self')).body,
+      'vessels.urn:mrn:signalk:uuid:mock-vessel',
+    );
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/vessels/self/name')).body,
+      'Mock',
+    );
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/vessels/self/missing'))
+        .status,
+      404,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('mock server scripted responses and failures', async () => {
+  const server = new SignalKMockServer();
+  await server.start();
+  try {
+    server.respond('GET', '/signalk/v2/api/resources/*', {
+      body: { 'route-id': { name: 'Test route' } },
+    });
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v2/api/resources/routes')).body,
+      { 'route-id': { name: 'Test route' } },
+    );
+    server.fail('GET', '/signalk/v1/api/*', 503, 1);
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/self')).status,
+      503,
+    );
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/self')).status,
+      200,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('mock server login, validate and security', async () => {
+  const server = new SignalKMockServer({
+    users: { admin: 'password' },
+    security: true,
+  });
+  await server.start();
+  try {
+    assertEquals(
+      (await request(server, 'POST', '/signalk/v1/auth/login', {
+        username: 'admin',
+        password: 'wrong',
+      })).status,
+      401,
+    );
+    const login = await request(server, 'POST', '/signalk/v1/auth/login', {
+      username: 'admin',
+      password: 'password',
+    });
+    const token = (login.body as { token: string }).token;
+    assert(server.isValidToken(token));
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/self')).status,
+      401,
+    );
+    assertEquals(
+      (await request(server, 'GET', '/signalk/v1/api/self', undefined, token))
+        .status,
+      200,
+    );
+
+    const validate = await request(
+      server,
+      'POST',
+      '/signalk/v1/auth/validate',
+      undefined,
+      token,
+    );
+    const renewed = (validate.body as { token: string }).token;
+    assert(!server.isValidToken(token));
+    assert(server.isValidToken(renewed));
+    const payload = JSON.parse(atob(renewed.split('.')[1]));
+    assertEquals(payload.id, 'admin');
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('mock server access requests', async () => {
+  const server = new SignalKMockServer();
+  await server.start();
+  try {
+    const created = await request(
+      server,
+      'POST',
+      '/signalk/v1/access/requests',
+      {
+        clientId: 'client-1',
+        description: 'Test device',
+      },
+    );
+    assertEquals(created.status, 202);
+    const href = (created.body as { href: string }).href;
+    const token = server.approveAccess('client-1', 'readwrite');
+    const status = await request(server, 'GET', href);
+    assertEquals(
+      (status.body as { accessRequest: unknown }).accessRequest,
+      {
+        permission: 'APPROVED',
+        token: token,
+        expirationTime: (status.body as {
+          accessRequest: { expirationTime: string };
+        }).accessRequest.expirationTime,
+      },
+    );
+  } finally {
+    await server.stop();
+  }
+});
@@ -4,9 +4,28 @@
 
 export * from './signalk-client.ts';
 export * from './utils.ts';
+export * from './types.ts';
+export * from './paths.ts';
+export * from './units.ts';
+export * from './metadata.ts';
+export * from './notifications.ts';
 export * from './stream-api.ts';
 export * from './http-api.ts';
 export * from './apps-api.ts';
+export * from './resources-api.ts';
+export * from './course-api.ts';
+export * from './autopilot-api.ts';
+export * from './history-api.ts';
+export * from './playback.ts';
+export * from './recorder.ts';
+export * from './manager.ts';
+export * from './discovery.ts';
+export * from './token-manager.ts';
+export * from './credential-store.ts';
+export * from './errors.ts';
+export * from './http-options.ts';
+export * from './transport.ts';
+export * from './data-model.ts';
 
 let _isDev = false;
 
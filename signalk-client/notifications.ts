@@ -0,0 +1,270 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { AlarmMethod, AlarmState } from './utils.ts';
+import { Delta, PathValue, Update } from './types.ts';
+import { debug } from './mod.ts';
+
+/** Active notification */
+export interface Notification {
+  context: string;
+  path: string;
+  state: AlarmState;
+  method: Array<AlarmMethod>;
+  message: string;
+  timestamp?: string;
+  $source?: string;
+  /** true if acknowledge() has been called for the notification */
+  acknowledged: boolean;
+}
+
+/** Notification event */
+export interface NotificationEvent {
+  notification: Notification;
+  /** Notification values prior to the change */
+  previous?: Notification;
+}
+
+/** Function used to send a value to a notification path */
+export type NotificationSender = (
+  context: string,
+  path: string,
+  value: unknown,
+) => Promise<unknown>;
+
+/** Severity of alarm states (higher is more severe) */
+const SEVERITY: { [state: string]: number } = {
+  normal: 0,
+  nominal: 0,
+  alert: 1,
+  warn: 2,
+  alarm: 3,
+  emergency: 4,
+};
+
+/** Signal K notification manager */
+export class SignalKNotifications {
+  /** Active notifications keyed by context and path
+   * @private
+   */
+  private _data: Map<string, Map<string, Notification>> = new Map();
+
+  /** Function used to send values to notification paths
+   * @private
+   */
+  private _send: NotificationSender;
+
+  /** Context of the self vessel e.g. vessels.urn:mrn:imo:mmsi:123456789 */
+  public selfId = '';
+
+  /** Notification events */
+  public events: EventEmitter<{
+    'raised'(ev: NotificationEvent): void;
+    'escalated'(ev: NotificationEvent): void;
+    'updated'(ev: NotificationEvent): void;
+    'cleared'(ev: NotificationEvent): void;
+  }>;
+
+  /** @param send Function used to send values to notification paths */
+  constructor(send: NotificationSender) {
+    this._send = send;
+    this.events = new EventEmitter();
+  }
+
+  /** List of active notifications
+   * @param context Return only notifications for this context
+   */
+  active(context?: string): Array<Notification> {
+    const res: Array<Notification> = [];
+    this._data.forEach((entries, c) => {
+      if (context && this.resolve(context) !== c) {
+        return;
+      }
+      entries.forEach((n) => res.push({ ...n }));
+    });
+    return res;
+  }
+
+  /** Return the active notification for the supplied context and path
+   * @param context Signal K context
+   * @param path Notification path e.g. notifications.mob
+   */
+  get(context: string, path: string): Notification | undefined {
+    const n = this._data.get(this.resolve(context))?.get(
+      this.notificationPath(path),
+    );
+    return n ? { ...n } : undefined;
+  }
+
+  /** Process the notification values contained in a delta message
+   * @param msg Delta message
+   */
+  update(msg: Delta) {
+    if (!msg || !Array.isArray(msg.updates)) {
+      return;
+    }
+    msg.updates.forEach((u: Update) => {
+      if (!Array.isArray(u.values)) {
+        return;
+      }
+      u.values.forEach((v: PathValue) => {
+        if (v && v.path && v.path.indexOf('notifications.') === 0) {
+          this.process(this.resolve(msg.context), v.path, v.value, u);
+        }
+      });
+    });
+  }
+
+  /** Acknowledge a notification (removes all alert methods)
+   * @param context Signal K context
+   * @param path Notification path e.g. notifications.mob
+   */
+  async acknowledge(context: string, path: string) {
+    const n = this.getActive(context, path);
+    const { acknowledged, method } = n;
+    // ** update local state first so it is retained by the echoed delta **
+    n.acknowledged = true;
+    n.method = [];
+    try {
+      await this._send(n.context, n.path, {
+        state: n.state,
+        method: [],
+        message: n.message,
+      });
+    } catch (err) {
+      n.acknowledged = acknowledged;
+      n.method = method;
+      throw err;
+    }
+  }
+
+  /** Silence a notification (removes the sound alert method)
+   * @param context Signal K context
+   * @param path Notification path e.g. notifications.mob
+   */
+  async silence(context: string, path: string) {
+    const n = this.getActive(context, path);
+    const previous = n.method;
+    const method = n.method.filter((m) => m !== AlarmMethod.sound);
+    n.method = method;
+    try {
+      await this._send(n.context, n.path, {
+        state: n.state,
+        method: method,
+        message: n.message,
+      });
+    } catch (err) {
+      n.method = previous;
+      throw err;
+    }
+  }
+
+  /** Remove all notifications */
+  clear() {
+    this._data.clear();
+  }
+
+  /** Update notification state and emit events
+   * @private
+   * @param context Signal K context
+   * @param path Notification path
+   * @param value Notification value
+   * @param u Delta update containing the value
+   */
+  private process(
+    context: string,
+    path: string,
+    value: unknown,
+    u: Update,
+  ) {
+    const entries = this._data.get(context) ?? new Map();
+    const previous = entries.get(path);
+    const v = value && typeof value === 'object'
+      ? value as { [key: string]: unknown }
+      : undefined;
+    const state = (v?.state as string) ?? 'normal';
+
+    if (!v || !SEVERITY[state]) {
+      // ** notification cleared **
+      if (previous) {
+        entries.delete(path);
+        if (entries.size === 0) {
+          this._data.delete(context);
+        }
+        debug(`notification cleared: ${context} ${path}`);
+        this.events.emit('cleared', {
+          notification: { ...previous, state: AlarmState.normal },
+          previous: previous,
+        });
+      }
+      return;
+    }
+
+    const method = Array.isArray(v.method)
+      ? v.method as Array<AlarmMethod>
+      : [];
+    const notification: Notification = {
+      context: context,
+      path: path,
+      state: state as AlarmState,
+      method: method,
+      message: typeof v.message === 'string' ? v.message : '',
+      timestamp: u.timestamp,
+      $source: u.$source,
+      acknowledged: previous && previous.state === state
+        ? previous.acknowledged && method.length === 0
+        : false,
+    };
+    entries.set(path, notification);
+    this._data.set(context, entries);
+
+    if (!previous) {
+      debug(`notification raised: ${context} ${path}`);
+      this.events.emit('raised', { notification: { ...notification } });
+    } else if (SEVERITY[state] > SEVERITY[previous.state]) {
+      debug(`notification escalated: ${context} ${path}`);
+      this.events.emit('escalated', {
+        notification: { ...notification },
+        previous: previous,
+      });
+    } else {
+      this.events.emit('updated', {
+        notification: { ...notification },
+        previous: previous,
+      });
+    }
+  }
+
+  /** Return an active notification or throw if not found
+   * @private
+   * @param context Signal K context
+   * @param path Notification path
+   */
+  private getActive(context: string, path: string): Notification {
+    const n = this._data.get(this.resolve(context))?.get(
+      this.notificationPath(path),
+    );
+    if (!n) {
+      throw new Error(`Error: No active notification for ${path}!`);
+    }
+    return n;
+  }
+
+  /** Resolve 'self' references to the self context
+   * @private
+   * @param context Signal K context
+   */
+  private resolve(context: string): string {
+    return context === 'self' || context === 'vessels.self'
+      ? this.selfId || 'vessels.self'
+      : context;
+  }
+
+  /** Return path prefixed with 'notifications.'
+   * @private
+   * @param path Notification path or name
+   */
+  private notificationPath(path: string): string {
+    return path.indexOf('notifications.') === 0
+      ? path
+      : `notifications.${path}`;
+  }
+}
@@ -0,0 +1,126 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  AlarmMethod,
+  AlarmState,
+  SignalKClient,
+  SignalKNotifications,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Return a delta containing a notification value */
+function notification(state: string, method: Array<string> = []) {
+  return {
+    context: 'vessels.self',
+    updates: [{
+      timestamp: '2024-01-01T00:00:00.000Z',
+      values: [{
+        path: 'notifications.mob',
+        value: { state: state, method: method, message: 'Man overboard' },
+      }],
+    }],
+  };
+}
+
+Deno.test('notifications track raised, escalated and cleared states', () => {
+  const notifications = new SignalKNotifications(() => Promise.resolve());
+  const events: Array<string> = [];
+  notifications.events.on('raised', () => events.push('raised'));
+  notifications.events.on('escalated', () => events.push('escalated'));
+  notifications.events.on('updated', () => events.push('updated'));
+  notifications.events.on('cleared', () => events.push('cleared'));
+
+  notifications.update(notification('warn', ['visual']));
+  notifications.update(notification('emergency', ['visual', 'sound']));
+  notifications.update(notification('emergency', ['visual']));
+  assertEquals(notifications.get('self', 'mob')?.state, AlarmState.emergency);
+  assertEquals(notifications.active().length, 1);
+
+  notifications.update(notification('normal'));
+  assertEquals(events, ['raised', 'escalated', 'updated', 'cleared']);
+  assertEquals(notifications.active(), []);
+});
+
+Deno.test('acknowledge() sends the value and keeps local state', async () => {
+  const sent: Array<unknown> = [];
+  const notifications = new SignalKNotifications((_context, _path, value) => {
+    sent.push(value);
+    return Promise.resolve();
+  });
+  notifications.update(notification('alarm', ['visual', 'sound']));
+  await notifications.silence('self', 'mob');
+  assertEquals(notifications.get('self', 'mob')?.method, [AlarmMethod.visual]);
+  await notifications.acknowledge('self', 'mob');
+  assertEquals(sent, [
+    { state: 'alarm', method: ['visual'], message: 'Man overboard' },
+    { state: 'alarm', method: [], message: 'Man overboard' },
+  ]);
+
+  // ** echoed delta retains the acknowledged state **
+  notifications.update(notification('alarm'));
+  assertEquals(notifications.get('self', 'mob')?.acknowledged, true);
+  // ** a new alarm method clears it **
+  notifications.update(notification('alarm', ['sound']));
+  assertEquals(notifications.get('self', 'mob')?.acknowledged, false);
+});
+
+Deno.test('acknowledge() and silence() roll back on failure', async () => {
+  const notifications = new SignalKNotifications(() =>
+    Promise.reject(new Error('send failed'))
+  );
+  notifications.update(notification('alarm', ['visual', 'sound']));
+  await assertRejects(
+    () => notifications.acknowledge('self', 'mob'),
+    Error,
+    'send failed',
+  );
+  await assertRejects(
+    () => notifications.silence('self', 'mob'),
+    Error,
+    'send failed',
+  );
+  const n = notifications.get('self', 'mob');
+  assertEquals(n?.acknowledged, false);
+  assertEquals(n?.method, [AlarmMethod.visual, AlarmMethod.sound]);
+  await assertRejects(
+    () => notifications.acknowledge('self', 'fire'),
+    Error,
+    'No active notification',
+  );
+});
+
+Deno.test('stream notifications are acknowledged via the server', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = new Promise<void>((resolve) =>
+      client.stream.events.once('connect', () => resolve())
+    );
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const raised = new Promise<void>((resolve) =>
+      client.stream.notifications.events.once('raised', () => resolve())
+    );
+    server.pushValue('notifications.mob', {
+      state: 'emergency',
+      method: ['visual', 'sound'],
+      message: 'Man overboard',
+    });
+    await raised;
+    await client.stream.notifications.acknowledge('self', 'mob');
+    assertEquals(
+      await client.api.get('vessels.self.notifications.mob.value') as unknown,
+      { state: 'emergency', method: [], message: 'Man overboard' },
+    );
+    assertEquals(
+      client.stream.notifications.get('self', 'mob')?.acknowledged,
+      true,
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
@@ -0,0 +1,239 @@
+/*****************************
+ * Signal K path catalogue
+ * Value types and SI units of commonly used paths defined in the
+ * Signal K specification (v1).
+ *****************************/
+
+/** Position value */
+export interface Position {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+}
+
+/** Attitude value (radians) */
+export interface Attitude {
+  roll: number;
+  pitch: number;
+  yaw: number;
+}
+
+/** Map of Signal K paths to the type of their value */
+export interface PathValueMap {
+  // ** vessel **
+  name: string;
+  mmsi: string;
+  uuid: string;
+  'design.length': { overall?: number; hull?: number; waterline?: number };
+  'design.beam': number;
+  'design.draft': { minimum?: number; maximum?: number; current?: number };
+  'design.airHeight': number;
+
+  // ** navigation **
+  'navigation.position': Position;
+  'navigation.courseOverGroundTrue': number;
+  'navigation.courseOverGroundMagnetic': number;
+  'navigation.speedOverGround': number;
+  'navigation.speedThroughWater': number;
+  'navigation.headingTrue': number;
+  'navigation.headingMagnetic': number;
+  'navigation.magneticVariation': number;
+  'navigation.rateOfTurn': number;
+  'navigation.attitude': Attitude;
+  'navigation.datetime': string;
+  'navigation.log': number;
+  'navigation.trip.log': number;
+  'navigation.state': string;
+
+  // ** environment **
+  'environment.wind.angleApparent': number;
+  'environment.wind.speedApparent': number;
+  'environment.wind.angleTrueWater': number;
+  'environment.wind.speedTrue': number;
+  'environment.wind.directionTrue': number;
+  'environment.wind.directionMagnetic': number;
+  'environment.depth.belowTransducer': number;
+  'environment.depth.belowKeel': number;
+  'environment.depth.belowSurface': number;
+  'environment.water.temperature': number;
+  'environment.outside.temperature': number;
+  'environment.outside.pressure': number;
+  'environment.outside.humidity': number;
+  'environment.inside.temperature': number;
+
+  // ** steering **
+  'steering.rudderAngle': number;
+  'steering.autopilot.state': string;
+  'steering.autopilot.target.headingTrue': number;
+  'steering.autopilot.target.headingMagnetic': number;
+  'steering.autopilot.target.windAngleApparent': number;
+
+  // ** electrical / propulsion / tanks (instance paths) **
+  [path: `electrical.batteries.${string}.voltage`]: number;
+  [path: `electrical.batteries.${string}.current`]: number;
+  [path: `electrical.batteries.${string}.temperature`]: number;
+  [path: `electrical.batteries.${string}.capacity.stateOfCharge`]: number;
+  [path: `propulsion.${string}.revolutions`]: number;
+  [path: `propulsion.${string}.temperature`]: number;
+  [path: `propulsion.${string}.oilPressure`]: number;
+  [path: `propulsion.${string}.runTime`]: number;
+  [path: `tanks.${string}.currentLevel`]: number;
+  [path: `tanks.${string}.capacity`]: number;
+}
+
+/** Signal K path with a known value type */
+export type KnownPath = keyof PathValueMap;
+
+/** Convert a path in slash notation to dot notation */
+type DotPath<S extends string> = S extends `${infer A}/${infer B}`
+  ? `${A}.${DotPath<B>}`
+  : S;
+
+/** Find the known path at the end of a (context prefixed) path */
+type MatchPath<S extends string> = S extends KnownPath ? S
+  : S extends `${string}.${infer R}` ? MatchPath<R>
+  : never;
+
+/** Type of the value held at the supplied path (unknown for custom paths)
+ * e.g. PathValueType<'navigation.speedOverGround'> = number
+ */
+export type PathValueType<P extends string> = [MatchPath<DotPath<P>>] extends
+  [never] ? unknown
+  : PathValueMap[MatchPath<DotPath<P>>];
+
+/** Response from HTTP GET request for the supplied path */
+export type PathResponse<P extends string> = [MatchPath<DotPath<P>>] extends
+  [never] ? { [key: string]: unknown }
+  : {
+    value: PathValueType<P>;
+    timestamp?: string;
+    $source?: string;
+    [key: string]: unknown;
+  };
+
+/** SI units of path values. ('*' matches an instance identifier) */
+export const PATH_UNITS: { [path: string]: string } = {
+  'design.beam': 'm',
+  'design.airHeight': 'm',
+  'navigation.courseOverGroundTrue': 'rad',
+  'navigation.courseOverGroundMagnetic': 'rad',
+  'navigation.speedOverGround': 'm/s',
+  'navigation.speedThroughWater': 'm/s',
+  'navigation.headingTrue': 'rad',
+  'navigation.headingMagnetic': 'rad',
+  'navigation.magneticVariation': 'rad',
+  'navigation.rateOfTurn': 'rad/s',
+  'navigation.log': 'm',
+  'navigation.trip.log': 'm',
+  'environment.wind.angleApparent': 'rad',
+  'environment.wind.speedApparent': 'm/s',
+  'environment.wind.angleTrueWater': 'rad',
+  'environment.wind.speedTrue': 'm/s',
+  'environment.wind.directionTrue': 'rad',
+  'environment.wind.directionMagnetic': 'rad',
+  'environment.depth.belowTransducer': 'm',
+  'environment.depth.belowKeel': 'm',
+  'environment.depth.belowSurface': 'm',
+  'environment.water.temperature': 'K',
+  'environment.outside.temperature': 'K',
+  'environment.outside.pressure': 'Pa',
+  'environment.outside.humidity': 'ratio',
+  'environment.inside.temperature': 'K',
+  'steering.rudderAngle': 'rad',
+  'steering.autopilot.target.headingTrue': 'rad',
+  'steering.autopilot.target.headingMagnetic': 'rad',
+  'steering.autopilot.target.windAngleApparent': 'rad',
+  'electrical.batteries.*.voltage': 'V',
+  'electrical.batteries.*.current': 'A',
+  'electrical.batteries.*.temperature': 'K',
+  'electrical.batteries.*.capacity.stateOfCharge': 'ratio',
+  'propulsion.*.revolutions': 'Hz',
+  'propulsion.*.temperature': 'K',
+  'propulsion.*.oilPressure': 'Pa',
+  'propulsion.*.runTime': 's',
+  'tanks.*.*.currentLevel': 'ratio',
+  'tanks.*.*.capacity': 'm3',
+};
+
+/** Return the SI units defined for the supplied path
+ * @param path Signal K path in dot notation e.g. navigation.speedOverGround
+ * @returns units string or undefined if path is not known.
+ */
+export function pathUnits(path: string): string | undefined {
+  if (PATH_UNITS[path]) {
+    return PATH_UNITS[path];
+  }
+  const p = path.split('.');
+  const key = Object.keys(PATH_UNITS).find((k) => {
+    const kp = k.split('.');
+    return kp.length === p.length &&
+      kp.every((s, i) => s === '*' || s === p[i]);
+  });
+  return key ? PATH_UNITS[key] : undefined;
+}
+
+/** Signal K path constants */
+export const SKPath = {
+  name: 'name',
+  mmsi: 'mmsi',
+  uuid: 'uuid',
+  design: {
+    length: 'design.length',
+    beam: 'design.beam',
+    draft: 'design.draft',
+    airHeight: 'design.airHeight',
+  },
+  navigation: {
+    position: 'navigation.position',
+    courseOverGroundTrue: 'navigation.courseOverGroundTrue',
+    courseOverGroundMagnetic: 'navigation.courseOverGroundMagnetic',
+    speedOverGround: 'navigation.speedOverGround',
+    speedThroughWater: 'navigation.speedThroughWater',
+    headingTrue: 'navigation.headingTrue',
+    headingMagnetic: 'navigation.headingMagnetic',
+    magneticVariation: 'navigation.magneticVariation',
+    rateOfTurn: 'navigation.rateOfTurn',
+    attitude: 'navigation.attitude',
+    datetime: 'navigation.datetime',
+    log: 'navigation.log',
+    tripLog: 'navigation.trip.log',
+    state: 'navigation.state',
+  },
+  environment: {
+    wind: {
+      angleApparent: 'environment.wind.angleApparent',
+      speedApparent: 'environment.wind.speedApparent',
+      angleTrueWater: 'environment.wind.angleTrueWater',
+      speedTrue: 'environment.wind.speedTrue',
+      directionTrue: 'environment.wind.directionTrue',
+      directionMagnetic: 'environment.wind.directionMagnetic',
+    },
+    depth: {
+      belowTransducer: 'environment.depth.belowTransducer',
+      belowKeel: 'environment.depth.belowKeel',
+      belowSurface: 'environment.depth.belowSurface',
+    },
+    water: {
+      temperature: 'environment.water.temperature',
+    },
+    outside: {
+      temperature: 'environment.outside.temperature',
+      pressure: 'environment.outside.pressure',
+      humidity: 'environment.outside.humidity',
+    },
+    inside: {
+      temperature: 'environment.inside.temperature',
+    },
+  },
+  steering: {
+    rudderAngle: 'steering.rudderAngle',
+    autopilot: {
+      state: 'steering.autopilot.state',
+      target: {
+        headingTrue: 'steering.autopilot.target.headingTrue',
+        headingMagnetic: 'steering.autopilot.target.headingMagnetic',
+        windAngleApparent: 'steering.autopilot.target.windAngleApparent',
+      },
+    },
+  },
+} as const;
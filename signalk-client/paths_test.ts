@@ -0,0 +1,56 @@
+import { assertEquals } from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  pathUnits,
+  PathValueType,
+  Position,
+  SignalKClient,
+  SKPath,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Resolves to true when the supplied types are identical */
+type Equals<A, B> = (<T>() => T extends A ? 1 : 2) extends
+  (<T>() => T extends B ? 1 : 2) ? true : false;
+
+Deno.test('path value types resolve from the catalogue', () => {
+  const known: Equals<PathValueType<'navigation.speedOverGround'>, number> =
+    true;
+  const slash: Equals<
+    PathValueType<'vessels/self/navigation/position'>,
+    Position
+  > = true;
+  const custom: Equals<PathValueType<'custom.path'>, unknown> = true;
+  assertEquals([known, slash, custom], [true, true, true]);
+});
+
+Deno.test('pathUnits() returns the SI units of known paths', () => {
+  assertEquals(pathUnits(SKPath.navigation.speedOverGround), 'm/s');
+  assertEquals(pathUnits('propulsion.port.revolutions'), 'Hz');
+  assertEquals(pathUnits('tanks.fuel.0.currentLevel'), 'ratio');
+  assertEquals(pathUnits('custom.path'), undefined);
+});
+
+Deno.test('get() returns typed path values', async () => {
+  const server = new SignalKMockServer({
+    tree: {
+      self: 'vessels.urn:mrn:signalk:uuid:mock-vessel',
+      vessels: {
+        'urn:mrn:signalk:uuid:mock-vessel': {
+          navigation: {
+            position: { value: { latitude: -35.1, longitude: 138.5 } },
+          },
+        },
+      },
+    },
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const res = await client.api.get('vessels/self/navigation/position');
+    const position: Position = res.value;
+    assertEquals(position, { latitude: -35.1, longitude: 138.5 });
+  } finally {
+    await server.stop();
+  }
+});
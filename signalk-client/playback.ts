@@ -0,0 +1,236 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKStream } from './stream-api.ts';
+import { StreamMessage, Update } from './types.ts';
+import { debug } from './mod.ts';
+
+/** Options for playback stream connection */
+export interface PlaybackOptions {
+  /** Time from which to start playback (ISO formatted time string or Date) */
+  startTime?: string | Date;
+  /** Playback speed multiplier e.g. 2 = twice real time */
+  playbackRate?: number;
+  /** Stream subscription param e.g. 'self', 'all', 'none' */
+  subscribe?: string;
+}
+
+/** Controls playback of a Signal K playback stream */
+export class PlaybackController {
+  /** Stream used for playback
+   * @private
+   */
+  private _stream: SignalKStream;
+
+  /** Playback stream endpoint
+   * @private
+   */
+  private _url: string;
+
+  /** Authentication token
+   * @private
+   */
+  private _token?: string;
+
+  /** Stream subscription param
+   * @private
+   */
+  private _subscribe?: string;
+
+  /** Playback rate
+   * @private
+   */
+  private _rate = 1;
+
+  /** Current playback time
+   * @private
+   */
+  private _time: Date | null = null;
+
+  /** Playback paused flag
+   * @private
+   */
+  private _paused = true;
+
+  /** Track playback time from received stream messages
+   * @private
+   */
+  private _onMessage = (msg: StreamMessage) => this.updateTime(msg);
+
+  /** Playback events */
+  public events: EventEmitter<{
+    'timeupdate'(time: Date): void;
+    'play'(): void;
+    'pause'(): void;
+    'ratechange'(rate: number): void;
+  }>;
+
+  /**
+   * @param stream Stream used for playback
+   * @param url Playback stream endpoint e.g. ws://host:3000/signalk/v1/playback
+   * @param options Playback options
+   * @param token Authentication token
+   */
+  constructor(
+    stream: SignalKStream,
+    url: string,
+    options?: PlaybackOptions,
+    token?: string,
+  ) {
+    this.events = new EventEmitter();
+    this._stream = stream;
+    this._url = url;
+    this._token = token;
+    if (options && typeof options === 'object') {
+      this._subscribe = options.subscribe;
+      if (options.startTime) {
+        this._time = PlaybackController.parseTime(options.startTime);
+      }
+      if (typeof options.playbackRate === 'number') {
+        this.checkRate(options.playbackRate);
+        this._rate = options.playbackRate;
+      }
+    }
+    this._stream.events.on('message', this._onMessage);
+  }
+
+  /** Current playback time (from the playback hello and delta timestamps) */
+  get currentTime(): Date | null {
+    return this._time ? new Date(this._time) : null;
+  }
+
+  /** Current playback rate */
+  get playbackRate(): number {
+    return this._rate;
+  }
+
+  /** true if playback is paused */
+  get paused(): boolean {
+    return this._paused;
+  }
+
+  /** Start / resume playback from the current playback time */
+  play() {
+    this._paused = false;
+    this.openStream();
+    this.events.emit('play');
+  }
+
+  /** Pause playback (closes the playback stream) */
+  pause() {
+    if (this._paused) {
+      return;
+    }
+    this._paused = true;
+    this._stream.close();
+    this.events.emit('pause');
+  }
+
+  /** Move playback to the supplied time
+   * @param time ISO formatted time string or Date
+   */
+  seek(time: string | Date) {
+    this._time = PlaybackController.parseTime(time);
+    this.events.emit('timeupdate', new Date(this._time));
+    if (!this._paused) {
+      this.openStream();
+    }
+  }
+
+  /** Change the playback rate
+   * @param rate Playback speed multiplier e.g. 2 = twice real time
+   */
+  setRate(rate: number) {
+    this.checkRate(rate);
+    this._rate = rate;
+    this.events.emit('ratechange', rate);
+    if (!this._paused) {
+      this.openStream();
+    }
+  }
+
+  /** Stop tracking playback and detach from the stream (the stream is not closed) */
+  dispose() {
+    this._paused = true;
+    this._stream.events.off('message', this._onMessage);
+  }
+
+  /** Format a time value for use in playback / snapshot requests
+   * @param time ISO formatted time string or Date
+   * @returns ISO formatted time string without milliseconds e.g. 2023-01-27T01:47:39Z
+   */
+  static formatTime(time: string | Date): string {
+    return PlaybackController.parseTime(time).toISOString().replace(
+      /\.\d{3}Z$/,
+      'Z',
+    );
+  }
+
+  /** Parse time value and throw if invalid
+   * @private
+   * @param time ISO formatted time string or Date
+   */
+  private static parseTime(time: string | Date): Date {
+    const d = new Date(time);
+    if (isNaN(d.getTime())) {
+      throw new Error(`Error: Invalid time value (${time}) supplied!`);
+    }
+    return d;
+  }
+
+  /** Throw if playback rate is invalid
+   * @private
+   * @param rate Playback rate
+   */
+  private checkRate(rate: number) {
+    if (typeof rate !== 'number' || !(rate > 0) || !isFinite(rate)) {
+      throw new Error(`Error: Invalid playback rate (${rate}) supplied!`);
+    }
+  }
+
+  /** (Re)open the playback stream at the current playback time and rate
+   * @private
+   */
+  private openStream() {
+    // ** url is rebuilt on reconnection so playback resumes from the last received time **
+    this._stream.open(() => this.streamUrl(), this._subscribe, this._token);
+  }
+
+  /** Build the playback stream url for the current playback time and rate
+   * @private
+   */
+  private streamUrl(): string {
+    const params = new URLSearchParams();
+    if (this._time) {
+      params.set('startTime', PlaybackController.formatTime(this._time));
+    }
+    params.set('playbackRate', String(this._rate));
+    const q = this._url.indexOf('?') === -1 ? '?' : '&';
+    debug(`playback ${params.toString()}`);
+    return `${this._url}${q}${params.toString()}`;
+  }
+
+  /** Update current playback time from received stream messages
+   * @private
+   * @param msg Received stream message
+   */
+  private updateTime(msg: StreamMessage) {
+    let time: number | undefined;
+    if (this._stream.isHello(msg) && msg.startTime) {
+      time = new Date(msg.startTime).getTime();
+      if (typeof msg.playbackRate === 'number') {
+        this._rate = msg.playbackRate;
+      }
+    } else if (this._stream.isDelta(msg)) {
+      msg.updates.forEach((u: Update) => {
+        const t = u.timestamp ? new Date(u.timestamp).getTime() : NaN;
+        if (!isNaN(t) && (typeof time === 'undefined' || t > time)) {
+          time = t;
+        }
+      });
+    }
+    if (typeof time === 'undefined' || isNaN(time)) {
+      return;
+    }
+    this._time = new Date(time);
+    this.events.emit('timeupdate', new Date(time));
+  }
+}
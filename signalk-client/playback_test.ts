@@ -0,0 +1,90 @@
+import {
+  assertEquals,
+  assertThrows,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { Hello, PlaybackController, SignalKClient } from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Wait for the next hello message received by the client stream */
+function nextHello(client: SignalKClient): Promise<Hello> {
+  return new Promise((resolve) => {
+    const handler = (msg: unknown) => {
+      if (client.stream.isHello(msg)) {
+        client.stream.events.off('message', handler);
+        resolve(msg);
+      }
+    };
+    client.stream.events.on('message', handler);
+  });
+}
+
+Deno.test('playback controls the playback stream', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const messages: Array<unknown> = [];
+  server.events.on('message', (msg) => messages.push(msg));
+  try {
+    client.stream.subscribe('self', 'navigation.*');
+    let hello = nextHello(client);
+    await client.connectPlayback('127.0.0.1', port, false, {
+      startTime: '2024-01-01T00:00:00Z',
+      playbackRate: 2,
+      subscribe: 'none',
+    });
+    const playback = client.playback as PlaybackController;
+    assertEquals((await hello).startTime, '2024-01-01T00:00:00Z');
+    assertEquals((await hello).playbackRate, 2);
+    assertEquals(playback.paused, false);
+
+    const timeupdate = new Promise<Date>((resolve) =>
+      playback.events.once('timeupdate', resolve)
+    );
+    server.pushDelta({
+      context: 'vessels.self',
+      updates: [{
+        timestamp: '2024-01-01T00:10:00.000Z',
+        values: [{ path: 'navigation.speedOverGround', value: 3.2 }],
+      }],
+    });
+    assertEquals(
+      (await timeupdate).toISOString(),
+      '2024-01-01T00:10:00.000Z',
+    );
+
+    // ** seeking reopens the stream at the new time **
+    hello = nextHello(client);
+    playback.seek('2024-01-02T00:00:00Z');
+    assertEquals((await hello).startTime, '2024-01-02T00:00:00Z');
+    assertThrows(() => playback.setRate(0), Error, 'Invalid playback rate');
+
+    const closed = new Promise<void>((resolve) =>
+      client.stream.events.once('close', () => resolve())
+    );
+    playback.pause();
+    await closed;
+    assertEquals(playback.paused, true);
+
+    // ** subscriptions are sent once each time the stream opens **
+    const subscribe = {
+      context: 'vessels.self',
+      subscribe: [{ path: 'navigation.*' }],
+    };
+    assertEquals(messages, [subscribe, subscribe]);
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('formatTime() returns time without milliseconds', () => {
+  assertEquals(
+    PlaybackController.formatTime(new Date('2023-01-27T01:47:39.785Z')),
+    '2023-01-27T01:47:39Z',
+  );
+  assertThrows(
+    () => PlaybackController.formatTime('not a time'),
+    Error,
+    'Invalid time value',
+  );
+});
@@ -0,0 +1,300 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKStream } from './stream-api.ts';
+import { debug } from './mod.ts';
+
+/** Entry (line) in a stream recording */
+export interface RecordedMessage {
+  /** Time the message was received (ISO formatted time string) */
+  received: string;
+  /** Message received on the stream */
+  message: unknown;
+}
+
+/** Destination for recorded lines e.g. Deno.FsFile */
+export interface RecordingWriter {
+  write(p: Uint8Array): Promise<number>;
+  close(): void;
+}
+
+/** Records the messages received on a stream to a newline delimited JSON (NDJSON) file */
+export class StreamRecorder {
+  /** Stream being recorded
+   * @private
+   */
+  private _stream: SignalKStream;
+
+  /** Destination for recorded lines
+   * @private
+   */
+  private _writer: RecordingWriter | undefined;
+
+  /** Pending write operations
+   * @private
+   */
+  private _writing: Promise<unknown> = Promise.resolve();
+
+  /** Number of messages written to the destination
+   * @private
+   */
+  private _count = 0;
+
+  /** First error raised writing to the destination
+   * @private
+   */
+  private _error: Error | undefined;
+
+  /** Record received stream data
+   * @private
+   */
+  private _onRaw = (data: string) => this.record(data);
+
+  /** Recorder events */
+  public events: EventEmitter<{
+    'error'(err: Error): void;
+  }>;
+
+  /** @param stream Stream to record */
+  constructor(stream: SignalKStream) {
+    this._stream = stream;
+    this.events = new EventEmitter();
+  }
+
+  /** true if recording is in progress */
+  get recording(): boolean {
+    return this._writer ? true : false;
+  }
+
+  /** Number of messages written to the destination */
+  get count(): number {
+    return this._count;
+  }
+
+  /** Start recording
+   * @param dest Path of file to append recorded messages to or a writer
+   */
+  async start(dest: string | RecordingWriter) {
+    if (this._writer) {
+      throw new Error('Error: Recording already in progress!');
+    }
+    this._writer = typeof dest === 'string'
+      ? await Deno.open(dest, { write: true, create: true, append: true })
+      : dest;
+    this._count = 0;
+    this._error = undefined;
+    debug('recording started');
+    this._stream.events.on('raw', this._onRaw);
+  }
+
+  /** Stop recording and close the destination once all messages have been written
+   * (rejects with the first error raised writing to the destination)
+   */
+  async stop() {
+    if (!this._writer) {
+      return;
+    }
+    this._stream.events.off('raw', this._onRaw);
+    const writer = this._writer;
+    this._writer = undefined;
+    await this._writing;
+    writer.close();
+    debug(`recording stopped: ${this._count} message(s)`);
+    if (this._error) {
+      throw this._error;
+    }
+  }
+
+  /** Write a received message to the destination
+   * @private
+   * @param data Received stream data
+   */
+  private record(data: string) {
+    const writer = this._writer;
+    if (!writer) {
+      return;
+    }
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    const entry: RecordedMessage = {
+      received: new Date().toISOString(),
+      message: message,
+    };
+    const line = new TextEncoder().encode(JSON.stringify(entry) + '\n');
+    this._writing = this._writing.then(async () => {
+      // ** write() may write fewer bytes than supplied **
+      let written = 0;
+      while (written < line.length) {
+        written += await writer.write(line.subarray(written));
+      }
+      this._count++;
+    }).catch((err) => {
+      const e = err instanceof Error ? err : new Error(String(err));
+      debug(`Error writing recording: ${e.message}`);
+      if (!this._error) {
+        this._error = e;
+      }
+      this.events.emit('error', e);
+    });
+  }
+}
+
+/** Replays a stream recording through a SignalKStream */
+export class StreamReplayer {
+  /** Recorded messages
+   * @private
+   */
+  private _entries: Array<{ time: number; data: string }> = [];
+
+  /** Index of next message to replay
+   * @private
+   */
+  private _index = 0;
+
+  /** Timer for the next message
+   * @private
+   */
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Playback rate
+   * @private
+   */
+  private _rate = 1;
+
+  /** Stream through which messages are replayed.
+   * Subscribe to `stream.events` to receive replayed messages. */
+  public stream: SignalKStream;
+
+  /** Replayer events */
+  public events: EventEmitter<{
+    'end'(ev: { count: number }): void;
+  }>;
+
+  /** @param stream Stream through which to replay messages (default: new SignalKStream) */
+  constructor(stream?: SignalKStream) {
+    this.stream = stream ?? new SignalKStream();
+    this.events = new EventEmitter();
+  }
+
+  /** true if replay is in progress */
+  get playing(): boolean {
+    return this._timer ? true : false;
+  }
+
+  /** Number of messages loaded */
+  get length(): number {
+    return this._entries.length;
+  }
+
+  /** Index of the next message to be replayed */
+  get position(): number {
+    return this._index;
+  }
+
+  /** Replay speed multiplier (Infinity = as fast as possible) */
+  get rate(): number {
+    return this._rate;
+  }
+
+  /** Set replay speed multiplier
+   * @param val Replay speed multiplier e.g. 1 = real time, 10 = ten times real time
+   */
+  set rate(val: number) {
+    if (typeof val !== 'number' || !(val > 0)) {
+      throw new Error(`Error: Invalid replay rate (${val}) supplied!`);
+    }
+    this._rate = val;
+    if (this._timer) {
+      this.pause();
+      this.scheduleNext();
+    }
+  }
+
+  /** Load a recording file
+   * @param path Path of NDJSON recording file
+   * @returns Number of messages loaded
+   */
+  async load(path: string): Promise<number> {
+    return this.parse(await Deno.readTextFile(path));
+  }
+
+  /** Load recorded messages from NDJSON text
+   * @param text NDJSON text (one RecordedMessage per line)
+   * @returns Number of messages loaded
+   */
+  parse(text: string): number {
+    this.stop();
+    this._entries = [];
+    text.split('\n').forEach((line, i) => {
+      if (!line.trim()) {
+        return;
+      }
+      let entry: RecordedMessage;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        throw new Error(`Error: Invalid recording entry at line ${i + 1}!`);
+      }
+      const time = new Date(entry.received).getTime();
+      if (isNaN(time) || typeof entry.message === 'undefined') {
+        throw new Error(`Error: Invalid recording entry at line ${i + 1}!`);
+      }
+      this._entries.push({ time: time, data: JSON.stringify(entry.message) });
+    });
+    return this._entries.length;
+  }
+
+  /** Start / resume replay
+   * @param rate Replay speed multiplier (default: current rate)
+   */
+  play(rate?: number) {
+    if (typeof rate !== 'undefined') {
+      this.rate = rate;
+    }
+    if (this._timer || this._index >= this._entries.length) {
+      return;
+    }
+    if (this._index === 0) {
+      this.stream.events.emit('connect', new Event('open'));
+    }
+    this.scheduleNext();
+  }
+
+  /** Pause replay */
+  pause() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  /** Stop replay and return to the start of the recording */
+  stop() {
+    this.pause();
+    this._index = 0;
+  }
+
+  /** Schedule replay of the next message
+   * @private
+   */
+  private scheduleNext() {
+    const entry = this._entries[this._index];
+    if (!entry) {
+      this._timer = undefined;
+      this.stream.events.emit('close', new CloseEvent('close'));
+      this.events.emit('end', { count: this._entries.length });
+      return;
+    }
+    const prev = this._entries[this._index - 1];
+    const delay = prev && isFinite(this._rate)
+      ? Math.max(0, (entry.time - prev.time) / this._rate)
+      : 0;
+    this._timer = setTimeout(() => {
+      this._index++;
+      this.stream.inject(entry.data);
+      this.scheduleNext();
+    }, delay);
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  RecordedMessage,
+  RecordingWriter,
+  SignalKClient,
+  SignalKStream,
+  StreamRecorder,
+  StreamReplayer,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Writer collecting written text that writes at most `chunk` bytes per call */
+class MemoryWriter implements RecordingWriter {
+  data: Array<number> = [];
+  closed = false;
+  constructor(public chunk = Infinity) {}
+  write(p: Uint8Array): Promise<number> {
+    const n = Math.min(p.length, this.chunk);
+    this.data.push(...p.subarray(0, n));
+    return Promise.resolve(n);
+  }
+  close() {
+    this.closed = true;
+  }
+  get text(): string {
+    return new TextDecoder().decode(new Uint8Array(this.data));
+  }
+}
+
+Deno.test('recorder writes received stream messages as NDJSON', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const recorder = new StreamRecorder(client.stream);
+  const writer = new MemoryWriter(7);
+  try {
+    await recorder.start(writer);
+    const connected = new Promise<void>((resolve) =>
+      client.stream.events.once('connect', () => resolve())
+    );
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const received = new Promise<unknown>((resolve) =>
+      client.stream.onPath('self', 'navigation.speedOverGround', resolve)
+    );
+    server.pushValue('navigation.speedOverGround', 3.2);
+    await received;
+    await recorder.stop();
+
+    assertEquals(writer.closed, true);
+    assertEquals(recorder.recording, false);
+    const lines = writer.text.trim().split('\n').map((l) =>
+      JSON.parse(l) as RecordedMessage
+    );
+    // ** hello + delta **
+    assertEquals(recorder.count, 2);
+    assertEquals(lines.length, 2);
+    assertEquals(
+      (lines[1].message as { updates: Array<{ values: Array<unknown> }> })
+        .updates[0].values,
+      [{ path: 'navigation.speedOverGround', value: 3.2 }],
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('recorder reports write errors', async () => {
+  const stream = new SignalKStream();
+  const recorder = new StreamRecorder(stream);
+  const writer = new MemoryWriter();
+  let fail = true;
+  writer.write = (p: Uint8Array) => {
+    if (fail) {
+      fail = false;
+      return Promise.reject(new Error('Disk full'));
+    }
+    return MemoryWriter.prototype.write.call(writer, p);
+  };
+  const errors: Array<string> = [];
+  recorder.events.on('error', (err) => errors.push(err.message));
+  await recorder.start(writer);
+  stream.inject(JSON.stringify({ context: 'vessels.self', updates: [] }));
+  stream.inject(JSON.stringify({ context: 'vessels.self', updates: [] }));
+  await assertRejects(() => recorder.stop(), Error, 'Disk full');
+  assertEquals(errors, ['Disk full']);
+  assertEquals(recorder.count, 1);
+  assertEquals(writer.text.trim().split('\n').length, 1);
+  assertEquals(writer.closed, true);
+});
+
+Deno.test('replayer replays a recording through the stream', async () => {
+  const replayer = new StreamReplayer();
+  const text = [
+    { received: '2024-01-01T00:00:00.000Z', message: { self: 'vessels.x' } },
+    {
+      received: '2024-01-01T00:00:01.000Z',
+      message: {
+        context: 'vessels.self',
+        updates: [{ values: [{ path: 'navigation.headingTrue', value: 1 }] }],
+      },
+    },
+  ].map((e) => JSON.stringify(e)).join('\n');
+  assertEquals(replayer.parse(text), 2);
+  assertThrows(() => replayer.parse('not json'), Error, 'line 1');
+  replayer.parse(text);
+
+  const values: Array<unknown> = [];
+  replayer.stream.onPath('*', 'navigation.headingTrue', (v) => values.push(v));
+  const ended = new Promise<number>((resolve) =>
+    replayer.events.once('end', (ev) => resolve(ev.count))
+  );
+  replayer.play(Infinity);
+  assertEquals(await ended, 2);
+  assertEquals(values, [1]);
+  assertEquals(replayer.position, 2);
+  assertEquals(replayer.playing, false);
+  assertThrows(() => replayer.rate = 0, Error, 'Invalid replay rate');
+});
@@ -0,0 +1,313 @@
+import { NotConnectedError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
+import { debug } from './mod.ts';
+
+// ** GeoJSON types **
+
+/** GeoJSON position [longitude, latitude, altitude?] */
+export type GeoJsonPosition = [number, number] | [number, number, number];
+
+/** GeoJSON Point geometry */
+export interface GeoJsonPoint {
+  type: 'Point';
+  coordinates: GeoJsonPosition;
+}
+
+/** GeoJSON LineString geometry */
+export interface GeoJsonLineString {
+  type: 'LineString';
+  coordinates: Array<GeoJsonPosition>;
+}
+
+/** GeoJSON Polygon geometry */
+export interface GeoJsonPolygon {
+  type: 'Polygon';
+  coordinates: Array<Array<GeoJsonPosition>>;
+}
+
+/** GeoJSON MultiPolygon geometry */
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon';
+  coordinates: Array<Array<Array<GeoJsonPosition>>>;
+}
+
+/** GeoJSON Feature */
+export interface GeoJsonFeature<
+  G = GeoJsonPoint | GeoJsonLineString | GeoJsonPolygon | GeoJsonMultiPolygon,
+  P = { [key: string]: unknown },
+> {
+  type: 'Feature';
+  geometry: G;
+  properties?: P;
+  id?: string;
+}
+
+// ** Resource types **
+
+/** Attributes common to all resources */
+interface ResourceBase {
+  name?: string;
+  description?: string;
+  timestamp?: string;
+  $source?: string;
+}
+
+/** Route resource */
+export interface Route extends ResourceBase {
+  /** Total distance (m) */
+  distance?: number;
+  feature: GeoJsonFeature<
+    GeoJsonLineString,
+    {
+      coordinatesMeta?: Array<
+        { name?: string; description?: string; href?: string }
+      >;
+      [key: string]: unknown;
+    }
+  >;
+}
+
+/** Waypoint resource */
+export interface Waypoint extends ResourceBase {
+  type?: string;
+  feature: GeoJsonFeature<GeoJsonPoint>;
+}
+
+/** Note resource */
+export interface Note {
+  title?: string;
+  description?: string;
+  /** Reference to a related resource e.g. /resources/waypoints/<id> */
+  href?: string;
+  position?: { latitude: number; longitude: number };
+  mimeType?: string;
+  url?: string;
+  properties?: { [key: string]: unknown };
+  timestamp?: string;
+  $source?: string;
+}
+
+/** Region resource */
+export interface Region extends ResourceBase {
+  feature: GeoJsonFeature<GeoJsonPolygon | GeoJsonMultiPolygon>;
+}
+
+/** Chart resource */
+export interface Chart extends ResourceBase {
+  identifier: string;
+  /** [west, south, east, north] */
+  bounds?: [number, number, number, number];
+  chartFormat?: string;
+  minzoom?: number;
+  maxzoom?: number;
+  scale?: number;
+  type?: 'tilelayer' | 'S-57' | 'WMS' | 'WMTS' | 'mapstyleJSON' | 'tileJSON';
+  url?: string;
+  layers?: Array<string>;
+}
+
+/** Map of resource types to resource definitions */
+export interface ResourceTypeMap {
+  routes: Route;
+  waypoints: Waypoint;
+  notes: Note;
+  regions: Region;
+  charts: Chart;
+}
+
+/** Resource type names */
+export type ResourceType = keyof ResourceTypeMap;
+
+/** Filters applied when listing resources */
+export interface ResourceQuery {
+  /** Return resources within distance of this position [longitude, latitude] (default: vessel position) */
+  position?: [number, number];
+  /** Distance (m) from position */
+  distance?: number;
+  /** Maximum number of entries to return */
+  limit?: number;
+  /** Return resources within bounding box [west, south, east, north] */
+  bbox?: [number, number, number, number];
+}
+
+/** Signal K v2 Resources API operations */
+export class SignalKResources {
+  /** Authentication token
+   * @private
+   */
+  private _token = '';
+
+  /** Resources API endpoint e.g. http://host:3000/signalk/v2/api/resources/ */
+  public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to retry the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Options applied to all requests (per-call options take precedence) */
+  public requestOptions: HttpOptions = {};
+
+  /** set auth token value
+   * @param val Authentication token value
+   */
+  set authToken(val: string) {
+    this._token = val;
+  }
+
+  /** Return list of resources of the supplied type
+   * @param type Resource type e.g. 'routes'
+   * @param query Filter parameters
+   * @param options Request options (timeout, signal, retry)
+   * @returns Resources keyed by id
+   */
+  async list<T extends ResourceType>(
+    type: T,
+    query?: ResourceQuery,
+    options?: HttpOptions,
+  ): Promise<{ [id: string]: ResourceTypeMap[T] }> {
+    const params = new URLSearchParams();
+    if (query?.position) {
+      params.append('position', JSON.stringify(query.position));
+    }
+    if (typeof query?.distance === 'number') {
+      params.append('distance', String(query.distance));
+    }
+    if (typeof query?.limit === 'number') {
+      params.append('limit', String(query.limit));
+    }
+    if (query?.bbox) {
+      params.append('bbox', JSON.stringify(query.bbox));
+    }
+    const q = params.toString();
+    const response = await this.request(
+      'GET',
+      `${type}${q ? '?' + q : ''}`,
+      undefined,
+      options,
+    );
+    return response.json();
+  }
+
+  /** Return the resource with the supplied id
+   * @param type Resource type e.g. 'routes'
+   * @param id Resource identifier
+   * @param options Request options (timeout, signal, retry)
+   */
+  async get<T extends ResourceType>(
+    type: T,
+    id: string,
+    options?: HttpOptions,
+  ): Promise<ResourceTypeMap[T]> {
+    const response = await this.request(
+      'GET',
+      `${type}/${id}`,
+      undefined,
+      options,
+    );
+    return response.json();
+  }
+
+  /** Create a new resource
+   * @param type Resource type e.g. 'routes'
+   * @param value Resource definition
+   * @param options Request options (timeout, signal, retry)
+   * @returns Identifier assigned to the resource by the server
+   */
+  async create<T extends ResourceType>(
+    type: T,
+    value: ResourceTypeMap[T],
+    options?: HttpOptions,
+  ): Promise<string> {
+    const response = await this.request('POST', type, value, options);
+    const result = await response.json();
+    return result.id;
+  }
+
+  /** Update (or create) the resource with the supplied id
+   * @param type Resource type e.g. 'routes'
+   * @param id Resource identifier
+   * @param value Resource definition
+   * @param options Request options (timeout, signal, retry)
+   */
+  async update<T extends ResourceType>(
+    type: T,
+    id: string,
+    value: ResourceTypeMap[T],
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('PUT', `${type}/${id}`, value, options);
+  }
+
+  /** Delete the resource with the supplied id
+   * @param type Resource type e.g. 'routes'
+   * @param id Resource identifier
+   * @param options Request options (timeout, signal, retry)
+   */
+  async delete(
+    type: ResourceType,
+    id: string,
+    options?: HttpOptions,
+  ): Promise<void> {
+    await this.request('DELETE', `${type}/${id}`, undefined, options);
+  }
+
+  /** Send request to the resources API
+   * @private
+   * @param method HTTP method
+   * @param path Path relative to the resources endpoint
+   * @param value Request body
+   * @param httpOptions Timeout, cancellation and retry options
+   */
+  private async request(
+    method: string,
+    path: string,
+    value?: unknown,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    if (!this.endpoint) {
+      throw new NotConnectedError(
+        'Error: No resources endpoint! Use connect() to establish a connection.',
+      );
+    }
+    const url = `${this.endpoint}${path}`;
+    debug(`${method.toLowerCase()} ${url}`);
+    const headers = new Headers();
+    if (typeof value !== 'undefined') {
+      headers.append('Content-Type', 'application/json');
+    }
+    if (this._token) {
+      headers.append('Authorization', `JWT ${this._token}`);
+    }
+    const options: RequestInit = {
+      method: method,
+      headers: headers,
+    };
+    if (typeof value !== 'undefined') {
+      options.body = JSON.stringify(value);
+    }
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this.requestOptions,
+        this.transport.fetch,
+      );
+    let response = await send(options);
+    if (
+      response.status === 401 && this.onUnauthorized &&
+      (await this.onUnauthorized())
+    ) {
+      await response.body?.cancel();
+      const retryHeaders = new Headers(options.headers);
+      retryHeaders.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: retryHeaders });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, method, url);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,95 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  NotConnectedError,
+  NotFoundError,
+  Route,
+  SignalKClient,
+  SignalKResources,
+} from './mod.ts';
+import { MockRequest, SignalKMockServer } from './testing.ts';
+
+const route: Route = {
+  name: 'Test route',
+  feature: {
+    type: 'Feature',
+    geometry: {
+      type: 'LineString',
+      coordinates: [[138.5, -35.1], [138.6, -35.2]],
+    },
+  },
+};
+
+Deno.test('resources are listed, created, updated and deleted', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const requests: Array<MockRequest> = [];
+  server.respond('*', '/signalk/v2/api/resources/*', (req) => {
+    requests.push(req);
+    switch (req.method) {
+      case 'GET':
+        return {
+          body: req.path.endsWith('/routes') ? { 'route-1': route } : route,
+        };
+      case 'POST':
+        return { status: 201, body: { state: 'COMPLETED', id: 'route-2' } };
+      default:
+        return { body: { state: 'COMPLETED', statusCode: 200 } };
+    }
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    assertEquals(
+      await client.resources.list('routes', { distance: 1000, limit: 5 }),
+      { 'route-1': route },
+    );
+    assertEquals(await client.resources.get('routes', 'route-1'), route);
+    assertEquals(await client.resources.create('routes', route), 'route-2');
+    await client.resources.update('routes', 'route-2', route);
+    await client.resources.delete('routes', 'route-2');
+
+    assertEquals(
+      requests.map((r) => `${r.method} ${r.path}`),
+      [
+        'GET /signalk/v2/api/resources/routes',
+        'GET /signalk/v2/api/resources/routes/route-1',
+        'POST /signalk/v2/api/resources/routes',
+        'PUT /signalk/v2/api/resources/routes/route-2',
+        'DELETE /signalk/v2/api/resources/routes/route-2',
+      ],
+    );
+    assertEquals(requests[0].query.get('distance'), '1000');
+    assertEquals(requests[0].query.get('limit'), '5');
+    assertEquals(requests[2].body, route);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('resources requests fail with typed errors', async () => {
+  await assertRejects(
+    () => new SignalKResources().list('routes'),
+    NotConnectedError,
+  );
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  server.respond('GET', '/signalk/v2/api/resources/routes/missing', {
+    status: 404,
+    body: { message: 'Resource not found' },
+  });
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const err = await assertRejects(
+      () => client.resources.get('routes', 'missing'),
+      NotFoundError,
+    );
+    assertEquals(err.status, 404);
+    assertEquals(err.method, 'GET');
+  } finally {
+    await server.stop();
+  }
+});
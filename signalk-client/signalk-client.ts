@@ -1,7 +1,22 @@
 import { SignalKHttp } from './http-api.ts';
-import { SignalKStream } from './stream-api.ts';
+import {
+  AccessRequestOptions,
+  SignalKStream,
+  StreamRequestError,
+} from './stream-api.ts';
 import { SignalKApps } from './apps-api.ts';
+import { SignalKResources } from './resources-api.ts';
+import { SignalKCourse } from './course-api.ts';
+import { SignalKAutopilot } from './autopilot-api.ts';
+import { SignalKHistory } from './history-api.ts';
+import { PlaybackController, PlaybackOptions } from './playback.ts';
+import { SignalKTokenManager } from './token-manager.ts';
+import { CredentialStore, StoredCredentials } from './credential-store.ts';
 import { Message, Path } from './utils.ts';
+import { AccessPermission, RequestResponse } from './types.ts';
+import { NotFoundError, SignalKError } from './errors.ts';
+import { fetchWithOptions, HttpOptions } from './http-options.ts';
+import { Transport } from './transport.ts';
 import { debug } from './mod.ts';
 
 interface Server_Info {
@@ -27,12 +42,6 @@ interface HelloResponse {
   server: SKServer;
 }
 
-interface PlaybackOptions {
-  startTime: string;
-  playbackRate: number;
-  subscribe: string | undefined;
-}
-
 interface JSON_Patch {
   op: 'add' | 'replace' | 'remove' | 'copy' | 'move' | 'test';
   path: string;
@@ -45,6 +54,41 @@ export enum APPDATA_CONTEXT {
   GLOBAL = 'global',
 }
 
+/** Options for requestDeviceAccess() */
+export interface DeviceAccessOptions extends AccessRequestOptions {
+  /** Interval (ms) at which to poll the status of the request (default: 5000) */
+  pollInterval?: number;
+  /** If true the request is sent via the (open) stream rather than HTTP (default: false) */
+  stream?: boolean;
+}
+
+/** Reason a device access request was not approved */
+export type AccessRequestFailure = 'denied' | 'expired' | 'timeout' | 'failed';
+
+/** Error raised when a device access request is not approved */
+export class AccessRequestError extends Error {
+  /** Reason the request was not approved */
+  reason: AccessRequestFailure;
+  /** Last response received for the request (if any) */
+  response?: RequestResponse;
+
+  /**
+   * @param message Error message text
+   * @param reason Reason the request was not approved
+   * @param response Last response received for the request
+   */
+  constructor(
+    message: string,
+    reason: AccessRequestFailure,
+    response?: RequestResponse,
+  ) {
+    super(message);
+    this.name = 'AccessRequestError';
+    this.reason = reason;
+    this.response = response;
+  }
+}
+
 /** Signal K Client class */
 export class SignalKClient {
   /** Signal K server hostname / ip address.
@@ -131,6 +175,13 @@ export class SignalKClient {
     this._token = val;
     this.api.authToken = val;
     this.stream.authToken = val;
+    this.resources.authToken = val;
+    this.course.authToken = val;
+    this.autopilot.authToken = val;
+    this.history.authToken = val;
+    if (this.auth) {
+      this.auth.watch(val);
+    }
   }
 
   /** Get a Message object */
@@ -154,12 +205,91 @@ export class SignalKClient {
   public api: SignalKHttp;
   /** Signal K stream API */
   public stream: SignalKStream;
+  /** Signal K v2 Resources API */
+  public resources: SignalKResources;
+  /** Signal K v2 Course API */
+  public course: SignalKCourse;
+  /** Signal K v2 Autopilot API */
+  public autopilot: SignalKAutopilot;
+  /** Signal K v2 History API */
+  public history: SignalKHistory;
+  /** Controller for the playback stream opened by connectPlayback() / openPlayback() */
+  public playback: PlaybackController | undefined;
+  /** Authentication token manager (refresh / re-authentication) */
+  public auth: SignalKTokenManager;
+  /** Store used to persist tokens and client ids between runs */
+  public credentialStore: CredentialStore | undefined;
+
+  /** Options applied to all HTTP requests
+   * @private
+   */
+  private _requestOptions: HttpOptions = {};
+
+  /** Options applied to all HTTP requests (timeout, signal, retry) */
+  get requestOptions(): HttpOptions {
+    return this._requestOptions;
+  }
+
+  /** Set options applied to all HTTP requests (per-call options take precedence)
+   * @param val Request options
+   */
+  set requestOptions(val: HttpOptions) {
+    this._requestOptions = val ?? {};
+    [
+      this.api,
+      this.apps,
+      this.resources,
+      this.course,
+      this.autopilot,
+      this.history,
+    ].forEach((m) => m.requestOptions = this._requestOptions);
+  }
+
+  /** Transports used to communicate with the server
+   * @private
+   */
+  private _transport: Transport = {};
+
+  /** Transports used to communicate with the server (fetch function / WebSocket constructor) */
+  get transport(): Transport {
+    return this._transport;
+  }
+
+  /** Set transports used to communicate with the server
+   * @param val Transports (default: global fetch / WebSocket)
+   */
+  set transport(val: Transport) {
+    this._transport = val ?? {};
+    [
+      this.api,
+      this.apps,
+      this.stream,
+      this.resources,
+      this.course,
+      this.autopilot,
+      this.history,
+    ].forEach((m) => m.transport = this._transport);
+  }
 
-  /** Create new Signal K Client */
-  constructor() {
+  /** Create new Signal K Client
+   * @param transport Transports used to communicate with the server (default: global fetch / WebSocket)
+   */
+  constructor(transport?: Transport) {
     this.apps = new SignalKApps();
     this.api = new SignalKHttp();
     this.stream = new SignalKStream();
+    this.resources = new SignalKResources();
+    this.course = new SignalKCourse();
+    this.autopilot = new SignalKAutopilot();
+    this.history = new SignalKHistory();
+    this.requestOptions = {};
+    this.transport = transport ?? {};
+    this.auth = new SignalKTokenManager(this);
+    this.api.onUnauthorized = () => this.auth.reauthenticate();
+    this.stream.onUnauthorized = () => this.auth.reauthenticate();
+    [this.resources, this.course, this.autopilot, this.history].forEach((m) =>
+      m.onUnauthorized = () => this.auth.reauthenticate()
+    );
     this.init();
   }
 
@@ -197,40 +327,53 @@ export class SignalKClient {
    * @param hostname Signal K server hostname / IP address
    * @param port Port on which Signal K server is listening
    * @param useSSL If true uses https / wss, if false uses http /ws
+   * @param options Request options (timeout, signal, retry)
    */
   hello(
     hostname: string = this.hostname,
     port = 3000,
     useSSL = false,
+    options?: HttpOptions,
   ): Promise<{ [key: string]: unknown }> {
     this.init(hostname, port, useSSL);
-    return this.get('/signalk');
+    return this.get('/signalk', options);
   }
 
   /** connect to server (endpoint discovery) and DO NOT open Stream
    * @param hostname Signal K server hostname / IP address
    * @param port Port on which Signal K server is listening
    * @param {useSSL If true uses https / wss, if false uses http /ws
+   * @param options Discovery request options (timeout, signal, retry)
    */
   async connect(
     hostname: string = this.hostname,
     port = 3000,
     useSSL = false,
+    options?: HttpOptions,
   ): Promise<boolean> {
     debug('Contacting Signal K server.........');
     try {
-      const response: unknown = await this.hello(hostname, port, useSSL);
+      const response: unknown = await this.hello(
+        hostname,
+        port,
+        useSSL,
+        options,
+      );
       // ** discover endpoints **
-      this.getLoginStatus();
+      this.getLoginStatus().catch((err) =>
+        debug('login status unavailable: ', err)
+      );
       if (this.stream) {
         this.stream.close();
       }
       this.processHello(response as HelloResponse);
       this.api.endpoint = this.resolveHttpEndpoint();
       this.stream.endpoint = this.resolveStreamEndpoint();
+      await this.restoreCredentials();
       return true;
     } catch (error) {
-      if (this.fallback) {
+      const signal = options?.signal ?? this._requestOptions.signal;
+      if (this.fallback && !signal?.aborted) {
         // fallback if no hello response
         if (this.stream) {
           this.stream.close();
@@ -238,6 +381,7 @@ export class SignalKClient {
         this.processHello();
         this.api.endpoint = this.resolveHttpEndpoint();
         this.stream.endpoint = this.resolveStreamEndpoint();
+        await this.restoreCredentials();
         return true;
       } else {
         this.disconnectedFromServer();
@@ -248,6 +392,7 @@ export class SignalKClient {
 
   /** Close all connections to Signal K server */
   disconnect() {
+    this.closePlayback();
     this.stream.close();
   }
 
@@ -256,28 +401,23 @@ export class SignalKClient {
    * @param port Port on which Signal K server is listening
    * @param useSSL If true uses https / wss, if false uses http /ws
    * @param subscribe Subscription parameters for stream connection
+   * @param options Discovery request options (timeout, signal, retry)
    */
   connectStream(
     hostname: string = this.hostname,
     port = 3000,
     useSSL = false,
     subscribe = '',
+    options?: HttpOptions,
   ): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      this.connect(hostname, port, useSSL)
-        .then(() => {
-          // ** connect to stream api at preferred version else fall back to default version
-          const url = this.resolveStreamEndpoint();
-          if (!url) {
-            reject(false);
-            return;
-          }
-          this.stream.open(url, subscribe);
-          resolve(true);
-        })
-        .catch((e) => {
-          throw e;
-        });
+    return this.connect(hostname, port, useSSL, options).then(() => {
+      // ** connect to stream api at preferred version else fall back to default version
+      const url = this.resolveStreamEndpoint();
+      if (!url) {
+        return Promise.reject(false);
+      }
+      this.stream.open(url, subscribe);
+      return true;
     });
   }
 
@@ -286,23 +426,19 @@ export class SignalKClient {
    * @param port Port on which Signal K server is listening
    * @param useSSL If true uses https / wss, if false uses http /ws
    * @param options Options for playback stream connection
+   * @param httpOptions Discovery request options (timeout, signal, retry)
    */
   connectPlayback(
     hostname: string = this.hostname,
     port = 3000,
     useSSL = false,
     options: PlaybackOptions,
+    httpOptions?: HttpOptions,
   ): Promise<boolean> {
-    return new Promise((resolve) => {
-      this.connect(hostname, port, useSSL)
-        .then(() => {
-          // ** connect to playback api at preferred version else fall back to default version
-          this.openPlayback('', options, this._token);
-          resolve(true);
-        })
-        .catch((e) => {
-          throw e;
-        });
+    return this.connect(hostname, port, useSSL, httpOptions).then(() => {
+      // ** connect to playback api at preferred version else fall back to default version
+      this.openPlayback('', options, this._token);
+      return true;
     });
   }
 
@@ -317,6 +453,7 @@ export class SignalKClient {
     token?: string,
   ): boolean {
     debug('openStream.........');
+    this.closePlayback();
     if (!url) {
       // connect to stream api at discovered endpoint
       url = this.resolveStreamEndpoint();
@@ -347,21 +484,22 @@ export class SignalKClient {
       }
       url = url.replace('stream', 'playback');
     }
-    let pb = '';
-    let subscribe: string | undefined = '';
-    if (options && typeof options === 'object') {
-      pb += options.startTime
-        ? '?startTime=' +
-          options.startTime.slice(0, options.startTime.indexOf('.')) +
-          'Z'
-        : '';
-      pb += options.playbackRate ? `&playbackRate=${options.playbackRate}` : '';
-      subscribe = options.subscribe ? options.subscribe : undefined;
-    }
-    this.stream.open(url + pb, subscribe, token);
+    this.closePlayback();
+    this.playback = new PlaybackController(this.stream, url, options, token);
+    this.playback.play();
     return true;
   }
 
+  /** Detach any existing playback controller from the stream
+   * @private
+   */
+  private closePlayback() {
+    if (this.playback) {
+      this.playback.dispose();
+      this.playback = undefined;
+    }
+  }
+
   /** process Hello response
    * @params Recieved hello response from server.
    */
@@ -382,6 +520,11 @@ export class SignalKClient {
     debug(this.server.endpoints);
     this.api.server = this.server.info;
     this.apps.endpoint = this.resolveAppsEndpoint();
+    const v2 = this.resolveV2Endpoint();
+    this.resources.endpoint = v2 ? `${v2}resources/` : '';
+    this.course.endpoint = v2 ? `${v2}vessels/self/navigation/course` : '';
+    this.autopilot.endpoint = v2 ? `${v2}vessels/self/autopilots` : '';
+    this.history.endpoint = v2 ? `${v2}history` : '';
   }
 
   /** Return signalk apps API url */
@@ -389,6 +532,14 @@ export class SignalKClient {
     return this.resolveHttpEndpoint().replace('api', 'apps');
   }
 
+  /** Return signalk-http v2 API url */
+  private resolveV2Endpoint(): string {
+    return this.resolveHttpEndpoint().replace(
+      new RegExp('/v[0-9]+/'),
+      '/v2/',
+    );
+  }
+
   /** Return preferred WS stream url */
   private resolveStreamEndpoint(): string {
     if (
@@ -439,8 +590,12 @@ export class SignalKClient {
 
   /** HTTP GET from API path.
    * @param path Signal K path.
+   * @param options Request options (timeout, signal, retry)
    */
-  async get(path: string): Promise<{ [key: string]: unknown }> {
+  async get(
+    path: string,
+    options?: HttpOptions,
+  ): Promise<{ [key: string]: unknown }> {
     if (path && path.length > 0 && path[0] === '/') {
       path = path.slice(1);
     }
@@ -449,20 +604,36 @@ export class SignalKClient {
     }`;
 
     debug(`get ${url}`);
-    const options: RequestInit = {};
+    const init: RequestInit = {};
 
     if (this._token) {
-      options.headers = new Headers({ Authorization: `JWT ${this._token}` });
+      init.headers = new Headers({ Authorization: `JWT ${this._token}` });
+    }
+    const response = await this.request(url, init, options);
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new SignalKError(
+        'Error: Invalid JSON response!',
+        response.status,
+        url,
+        'GET',
+        text,
+      );
     }
-    const response = await fetch(url, options);
-    return response.json();
   }
 
   /** HTTP PUT to API path
    * @param path Signal K path.
    * @param value Value to apply.
+   * @param options Request options (timeout, signal, retry)
    */
-  async put(path: string, value: unknown): Promise<Response> {
+  async put(
+    path: string,
+    value: unknown,
+    options?: HttpOptions,
+  ): Promise<Response> {
     const url = `${this.protocol}://${this.hostname}:${this.port}/${
       Path.dotToSlash(path)
     }`;
@@ -473,19 +644,24 @@ export class SignalKClient {
       headers.append('Authorization', `JWT ${this._token}`);
     }
 
-    const options: RequestInit = {
+    const init: RequestInit = {
       method: 'PUT',
       headers: headers,
       body: JSON.stringify(value),
     };
-    return await fetch(url, options);
+    return await this.request(url, init, options);
   }
 
   /** HTTP POST to API path.
    * @param {string} path Signal K path.
    * @param value Value to apply.
+   * @param options Request options (timeout, signal, retry)
    */
-  async post(path: string, value: unknown): Promise<Response> {
+  async post(
+    path: string,
+    value: unknown,
+    options?: HttpOptions,
+  ): Promise<Response> {
     if (path && path.length > 0 && path[0] === '/') {
       path = path.slice(1);
     }
@@ -499,21 +675,58 @@ export class SignalKClient {
       headers.append('Authorization', `JWT ${this._token}`);
     }
 
-    const options: RequestInit = {
+    const init: RequestInit = {
       method: 'POST',
       headers: headers,
       body: JSON.stringify(value),
     };
-    return await fetch(url, options);
+    return await this.request(url, init, options);
+  }
+
+  /** Send HTTP request, retrying once with a renewed token if unauthorized
+   * @private
+   * @param url Request url
+   * @param options Request options
+   * @param httpOptions Timeout, cancellation and retry options
+   * @throws SignalKError if the request is unsuccessful
+   */
+  private async request(
+    url: string,
+    options: RequestInit,
+    httpOptions?: HttpOptions,
+  ): Promise<Response> {
+    const method = options.method ?? 'GET';
+    const send = (init: RequestInit) =>
+      fetchWithOptions(
+        url,
+        init,
+        httpOptions,
+        this._requestOptions,
+        this._transport.fetch,
+      );
+    let response = await send(options);
+    if (response.status === 401 && (await this.auth.reauthenticate())) {
+      await response.body?.cancel();
+      const headers = new Headers(options.headers);
+      headers.set('Authorization', `JWT ${this._token}`);
+      debug(`retry ${url}`);
+      response = await send({ ...options, headers: headers });
+    }
+    if (!response.ok) {
+      throw await SignalKError.fromResponse(response, method, url);
+    }
+    return response;
   }
 
   /** Login and retrieve an  auth token for supplied user details
    * @param username User id
    * @param password User password
+   * @param options Request options (timeout, signal, retry)
    */
   async login(
     username: string,
     password: string,
+    options?: HttpOptions,
   ): Promise<{ ok: boolean; status: number; token: string }> {
     const headers = new Headers({ 'Content-Type': 'application/json' });
     const url =
@@ -524,15 +737,18 @@ export class SignalKClient {
     if (this._token) {
       headers.append('Authorization', `JWT ${this._token}`);
     }
-    const options = {
+    const init = {
       method: 'POST',
       headers: headers,
       body: JSON.stringify({ username: username, password: password }),
     };
 
-    const response = await fetch(
+    const response = await fetchWithOptions(
       url,
+      init,
       options,
+      this._requestOptions,
+      this._transport.fetch,
     );
 
     const result = {
@@ -549,28 +765,42 @@ export class SignalKClient {
           result.token = this._token;
         }
       });
+      if (result.token) {
+        await this.storeCredentials({ token: result.token });
+      }
     }
     return result;
   }
 
-  /** Validate / refresh token from server */
-  async validate(): Promise<{ ok: boolean; status: number; token: string }> {
+  /** Validate / refresh token from server
+   * @param options Request options (timeout, signal, retry)
+   */
+  async validate(
+    options?: HttpOptions,
+  ): Promise<{ ok: boolean; status: number; token: string }> {
     const url =
       `${this.protocol}://${this.hostname}:${this.port}/signalk/${this._version}/auth/validate`;
 
     debug(`post ${url}`);
+    const previous = this._token;
     const headers = new Headers({ 'Content-Type': 'application/json' });
     if (this._token) {
       headers.append('Authorization', `JWT ${this._token}`);
     }
 
-    const options = {
+    const init = {
       method: 'POST',
       headers: headers,
       body: null,
     };
 
-    const response: Response = await fetch(url, options);
+    const response: Response = await fetchWithOptions(
+      url,
+      init,
+      options,
+      this._requestOptions,
+      this._transport.fetch,
+    );
 
     const result = {
       ok: response.ok,
@@ -586,12 +816,18 @@ export class SignalKClient {
           result.token = this._token;
         }
       });
+      if (result.token) {
+        await this.storeRefreshedToken(previous, result.token);
+      }
     }
     return result;
   }
 
-  /** Logout from server */
-  logout(): Promise<boolean> {
+  /** Logout from server
+   * @param options Request options (timeout, signal, retry)
+   * @returns true if the server accepted the logout request
+   */
+  async logout(options?: HttpOptions): Promise<boolean> {
     const url =
       `${this.protocol}://${this.hostname}:${this.port}/signalk/${this._version}/auth/logout`;
 
@@ -601,17 +837,27 @@ export class SignalKClient {
       headers.append('Authorization', `JWT ${this._token}`);
     }
 
-    const options = {
+    const init = {
       method: 'PUT',
       headers: headers,
       body: null,
     };
 
+    this.auth.stop();
+    await this.storeCredentials({ token: undefined });
     try {
-      fetch(url, options);
-      return Promise.resolve(true);
-    } catch {
-      return Promise.resolve(false);
+      const response = await fetchWithOptions(
+        url,
+        init,
+        options,
+        this._requestOptions,
+        this._transport.fetch,
+      );
+      await response.body?.cancel();
+      return response.ok;
+    } catch (err) {
+      debug('logout failed: ', err);
+      return false;
     }
   }
 
@@ -619,8 +865,15 @@ export class SignalKClient {
    * @returns True if user is logged in.
    */
   async isLoggedIn(): Promise<boolean> {
-    const response = await this.getLoginStatus();
-    return response.status === 'loggedIn' ? true : false;
+    try {
+      const response = await this.getLoginStatus();
+      return response.status === 'loggedIn' ? true : false;
+    } catch (err) {
+      if (err instanceof NotFoundError) {
+        return false;
+      }
+      throw err;
+    }
   }
 
   /** Fetch Signal K login status from server */
@@ -643,7 +896,7 @@ export class SignalKClient {
     if (!time) {
       throw new Error('Error: No time value supplied!');
     }
-    time = time.slice(0, time.indexOf('.')) + 'Z';
+    time = PlaybackController.formatTime(time);
     let url = this.resolveHttpEndpoint();
     if (!url) {
       throw new Error('Error: Unable to resolve URL!');
@@ -665,10 +918,12 @@ export class SignalKClient {
   /** Access request methods
    * @param name Name of sensor / process requesting access
    * @param id Client id
+   * @param permissions Permissions requested (default: server default)
    */
   async accessRequest(
     name: string,
     id?: string,
+    permissions?: AccessPermission,
   ): Promise<{ [key: string]: unknown }> {
     if (!name) {
       throw new Error('Error: Name not supplied!');
@@ -680,12 +935,14 @@ export class SignalKClient {
       this.clientId = id;
     }
     this.stream.clientId = this.clientId;
+    await this.storeCredentials({ clientId: this.clientId });
 
     const response = await this.post(
       `/signalk/${this._version}/access/requests`,
       {
         clientId: this.clientId,
         description: name,
+        permissions: permissions,
       },
     );
     return response.json();
@@ -698,7 +955,275 @@ export class SignalKClient {
     if (!href) {
       throw new Error('Error: href not supplied!');
     }
-    return await this.get(href);
+    const response = await this.get(href);
+    const ar = response.accessRequest as
+      | { permission?: string; token?: string }
+      | undefined;
+    if (ar?.permission === 'APPROVED' && ar.token) {
+      await this.storeCredentials({ deviceToken: ar.token });
+    }
+    return response;
+  }
+
+  /** Request device access and wait for the request to be approved.
+   * On approval the issued token is applied to `authToken`.
+   * @param name Name of sensor / process requesting access
+   * @param options Request options
+   * @returns Promise resolving with the COMPLETED (approved) response
+   * @throws AccessRequestError if the request is denied, expires or times out
+   */
+  async requestDeviceAccess(
+    name: string,
+    options?: DeviceAccessOptions,
+  ): Promise<RequestResponse> {
+    if (!name) {
+      throw new Error('Error: Name not supplied!');
+    }
+    const opts = {
+      ...options,
+      permissions: options?.permissions ?? 'readwrite',
+      timeout: options?.timeout ?? 300000,
+    };
+    if (!this.clientId) {
+      this.clientId = this.uuid;
+    }
+    this.stream.clientId = this.clientId;
+    await this.storeCredentials({ clientId: this.clientId });
+
+    const response = opts.stream
+      ? await this.streamAccessRequest(name, opts)
+      : await this.pollAccessRequest(name, opts);
+    const ar = response.accessRequest;
+    if (ar?.permission === 'DENIED') {
+      throw new AccessRequestError(
+        'Error: Access request denied!',
+        'denied',
+        response,
+      );
+    }
+    if (ar?.permission !== 'APPROVED') {
+      throw new AccessRequestError(
+        `Error: Access request failed! (${response.statusCode}) ${
+          response.message ?? ''
+        }`,
+        'failed',
+        response,
+      );
+    }
+    if (ar.token) {
+      this.authToken = ar.token;
+      await this.storeCredentials({ deviceToken: ar.token });
+    }
+    return response;
+  }
+
+  /** Send access request via the stream and wait for the final response
+   * @private
+   * @param name Name of sensor / process requesting access
+   * @param options Request options
+   */
+  private async streamAccessRequest(
+    name: string,
+    options: DeviceAccessOptions & { timeout: number },
+  ): Promise<RequestResponse> {
+    const start = Date.now();
+    try {
+      return await this.stream.accessRequestAsync(name, undefined, options);
+    } catch (err) {
+      if (!(err instanceof StreamRequestError)) {
+        throw err;
+      }
+      if (err.response) {
+        return err.response;
+      }
+      throw new AccessRequestError(
+        err.message,
+        Date.now() - start >= options.timeout ? 'timeout' : 'failed',
+      );
+    }
+  }
+
+  /** Send access request via HTTP and poll its status until COMPLETED
+   * @private
+   * @param name Name of sensor / process requesting access
+   * @param options Request options
+   */
+  private async pollAccessRequest(
+    name: string,
+    options: DeviceAccessOptions & { timeout: number },
+  ): Promise<RequestResponse> {
+    const deadline = Date.now() + options.timeout;
+    const interval = options.pollInterval ?? 5000;
+    let response = await this.accessRequest(
+      name,
+      undefined,
+      options.permissions,
+    ) as RequestResponse;
+    while (response.state === 'PENDING') {
+      const href = response.href;
+      if (!href) {
+        return response;
+      }
+      if (typeof options.onProgress === 'function') {
+        options.onProgress(response);
+      }
+      const wait = Math.min(interval, deadline - Date.now());
+      if (wait <= 0) {
+        throw new AccessRequestError(
+          `Error: Access request timed out (${options.timeout / 1000} sec)!`,
+          'timeout',
+          response,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, wait));
+      let status: RequestResponse;
+      try {
+        status = await this.checkAccessRequest(href) as RequestResponse;
+      } catch (err) {
+        if (err instanceof NotFoundError) {
+          throw new AccessRequestError(
+            'Error: Access request expired!',
+            'expired',
+            response,
+          );
+        }
+        throw err;
+      }
+      // ** server no longer holds the request **
+      if (status.state !== 'PENDING' && status.state !== 'COMPLETED') {
+        throw new AccessRequestError(
+          'Error: Access request expired!',
+          'expired',
+          status,
+        );
+      }
+      response = status;
+    }
+    return response;
+  }
+
+  /*******************************
+   *  Credential store
+   *******************************/
+
+  /** Key of the connected server in the credential store
+   * @private
+   */
+  private get credentialKey(): string {
+    const host = `${this.hostname}:${this.port}`;
+    return this.server.info.id ? `${host}/${this.server.info.id}` : host;
+  }
+
+  /** Update the credentials stored for the connected server
+   * @private
+   * @param values Values to update (undefined values are removed)
+   */
+  private async storeCredentials(values: StoredCredentials) {
+    if (!this.credentialStore) {
+      return;
+    }
+    try {
+      const key = this.credentialKey;
+      const c: StoredCredentials = {
+        ...(await this.credentialStore.get(key)),
+        ...values,
+      };
+      (Object.keys(c) as Array<keyof StoredCredentials>).forEach((k) => {
+        if (!c[k]) {
+          delete c[k];
+        }
+      });
+      await this.credentialStore.set(key, c);
+    } catch (err) {
+      debug(`Error storing credentials: ${err}`);
+    }
+  }
+
+  /** Store a refreshed token in place of the token it replaces
+   * (a refreshed device token is not stored as the user token)
+   * @private
+   * @param previous Token that was refreshed
+   * @param token Refreshed token
+   */
+  private async storeRefreshedToken(previous: string, token: string) {
+    if (!this.credentialStore) {
+      return;
+    }
+    let stored: StoredCredentials | undefined;
+    try {
+      stored = await this.credentialStore.get(this.credentialKey);
+    } catch (err) {
+      debug(`Error reading credentials: ${err}`);
+      return;
+    }
+    await this.storeCredentials(
+      previous && stored?.deviceToken === previous
+        ? { deviceToken: token }
+        : { token: token },
+    );
+  }
+
+  /** Restore the client id and a valid token stored for the connected server.
+   * Stored tokens are removed only when rejected by the server (401 / 403).
+   * @private
+   */
+  private async restoreCredentials() {
+    if (!this.credentialStore) {
+      return;
+    }
+    let stored: StoredCredentials | undefined;
+    try {
+      stored = await this.credentialStore.get(this.credentialKey);
+    } catch (err) {
+      debug(`Error reading credentials: ${err}`);
+      return;
+    }
+    if (!stored) {
+      return;
+    }
+    if (stored.clientId && !this.clientId) {
+      this.clientId = stored.clientId;
+      this.stream.clientId = stored.clientId;
+    }
+    // ** a token supplied by the application takes precedence **
+    if (this._token || (!stored.token && !stored.deviceToken)) {
+      return;
+    }
+    const rejected: StoredCredentials = {};
+    let assigned = false;
+    for (const key of ['token', 'deviceToken'] as const) {
+      const token = stored[key];
+      if (!token) {
+        continue;
+      }
+      this.authToken = token;
+      let status: number;
+      try {
+        const result = await this.validate();
+        status = result.ok ? 200 : result.status;
+      } catch (err) {
+        debug('stored token validation failed: ', err);
+        status = 0;
+      }
+      if (status === 200) {
+        debug('restored authToken');
+      } else if (status !== 401 && status !== 403) {
+        // ** server unable to validate the token: keep it **
+        debug(`stored token not validated (${status})`);
+      } else {
+        rejected[key] = undefined;
+        continue;
+      }
+      assigned = true;
+      break;
+    }
+    if (!assigned) {
+      debug('stored tokens are invalid');
+      this.authToken = '';
+    }
+    if (Object.keys(rejected).length) {
+      await this.storeCredentials(rejected);
+    }
   }
 
   /*******************************
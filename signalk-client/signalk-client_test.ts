@@ -0,0 +1,242 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  AccessRequestError,
+  MemoryCredentialStore,
+  SignalKClient,
+  StreamRequestError,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Wait for the stream of a client to connect */
+function streamConnected(client: SignalKClient): Promise<void> {
+  return new Promise((resolve) =>
+    client.stream.events.once('connect', () => resolve())
+  );
+}
+
+/** Wait for the supplied time (ms) */
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test('connectStream() receives deltas from the server', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = streamConnected(client);
+    assert(await client.connectStream('127.0.0.1', port, false, 'none'));
+    await connected;
+    const received = new Promise<unknown>((resolve) =>
+      client.stream.onPath('self', 'navigation.speedOverGround', resolve)
+    );
+    server.pushValue('navigation.speedOverGround', 3.2);
+    assertEquals(await received, 3.2);
+    assertEquals(
+      client.stream.model.get('self', 'navigation.speedOverGround')?.value,
+      3.2,
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('putAsync() resolves with the COMPLETED response', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = streamConnected(client);
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const response = await client.stream.putAsync(
+      'self',
+      'steering.rudderAngle',
+      0.1,
+    );
+    assertEquals(response.state, 'COMPLETED');
+    assertEquals(response.statusCode, 200);
+    assertEquals(
+      await client.api.get(
+        'vessels.self.steering.rudderAngle.value',
+      ) as unknown,
+      0.1,
+    );
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('loginAsync() rejects with StreamRequestError on failure', async () => {
+  const server = new SignalKMockServer({ users: { admin: 'password' } });
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    const connected = streamConnected(client);
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const err = await assertRejects(
+      () => client.stream.loginAsync('admin', 'wrong'),
+      StreamRequestError,
+    );
+    assertEquals(err.response?.statusCode, 401);
+    const response = await client.stream.loginAsync('admin', 'password');
+    assert(server.isValidToken(response.login?.token));
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('accessRequestAsync() resolves once the request is approved', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  server.events.on('accessRequest', (ev) => {
+    wait(10).then(() => server.approveAccess(ev.requestId, 'readwrite'));
+  });
+  try {
+    const connected = streamConnected(client);
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const pending: Array<string> = [];
+    const response = await client.stream.accessRequestAsync('test device', '', {
+      onProgress: (res) => pending.push(res.state),
+    });
+    assertEquals(pending, ['PENDING']);
+    assertEquals(response.accessRequest?.permission, 'APPROVED');
+    assert(server.isValidToken(response.accessRequest?.token));
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('requestDeviceAccess() polls until approved and applies the token', async () => {
+  const server = new SignalKMockServer({
+    tree: { vessels: { 'urn:mrn:signalk:uuid:mock-vessel': { name: 'Mock' } } },
+    security: true,
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  client.credentialStore = new MemoryCredentialStore();
+  server.events.on('accessRequest', (ev) => {
+    wait(30).then(() => server.approveAccess(ev.requestId, 'readwrite'));
+  });
+  try {
+    await client.connect('127.0.0.1', port);
+    const pending: Array<string> = [];
+    const response = await client.requestDeviceAccess('test device', {
+      pollInterval: 20,
+      onProgress: (res) => pending.push(res.state),
+    });
+    assert(pending.length > 0);
+    assert(pending.every((state) => state === 'PENDING'));
+    const token = response.accessRequest?.token;
+    assert(server.isValidToken(token));
+    assertEquals(
+      await client.api.get('/vessels/self/name') as unknown,
+      'Mock',
+    );
+    const stored = await client.credentialStore.get(
+      `127.0.0.1:${port}/signalk-mock-server`,
+    );
+    assertEquals(stored, { clientId: client.clientId, deviceToken: token });
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('requestDeviceAccess() rejects when the request is denied', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  server.events.on('accessRequest', (ev) => {
+    wait(10).then(() => server.denyAccess(ev.requestId));
+  });
+  try {
+    await client.connect('127.0.0.1', port);
+    const err = await assertRejects(
+      () => client.requestDeviceAccess('test device', { pollInterval: 20 }),
+      AccessRequestError,
+    );
+    assertEquals(err.reason, 'denied');
+    assertEquals(err.response?.accessRequest?.permission, 'DENIED');
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('requestDeviceAccess() rejects when the request expires', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  // ** server discards the pending request **
+  server.events.on('accessRequest', () => server.reset());
+  try {
+    await client.connect('127.0.0.1', port);
+    const err = await assertRejects(
+      () => client.requestDeviceAccess('test device', { pollInterval: 20 }),
+      AccessRequestError,
+    );
+    assertEquals(err.reason, 'expired');
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('requestDeviceAccess() rejects when the request times out', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port);
+    const err = await assertRejects(
+      () =>
+        client.requestDeviceAccess('test device', {
+          pollInterval: 20,
+          timeout: 50,
+        }),
+      AccessRequestError,
+    );
+    assertEquals(err.reason, 'timeout');
+    assertEquals(err.response?.state, 'PENDING');
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('requestDeviceAccess() sends the request via the stream', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const client = new SignalKClient();
+  const requests: Array<string> = [];
+  server.events.on('request', (req) => requests.push(req.path));
+  server.events.on('accessRequest', (ev) => {
+    wait(10).then(() => server.approveAccess(ev.requestId, 'readwrite'));
+  });
+  try {
+    const connected = streamConnected(client);
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    const response = await client.requestDeviceAccess('test device', {
+      stream: true,
+    });
+    assertEquals(response.accessRequest?.permission, 'APPROVED');
+    assert(server.isValidToken(response.accessRequest?.token));
+    assert(!requests.includes('/signalk/v1/access/requests'));
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
@@ -1,7 +1,106 @@
 import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
-import { Alarm, AlarmType, Message } from './utils.ts';
+import {
+  Alarm,
+  AlarmType,
+  Message,
+  Subscription,
+  SubscriptionOptions,
+} from './utils.ts';
+import {
+  AccessPermission,
+  Delta,
+  Hello,
+  Meta,
+  PathMeta,
+  PathValue,
+  RequestResponse,
+  Source,
+  StreamMessage,
+  Update,
+} from './types.ts';
+import { SignalKDataModel } from './data-model.ts';
+import { PathValueType } from './paths.ts';
+import { SignalKUnits } from './units.ts';
+import { SignalKMetadata } from './metadata.ts';
+import { SignalKNotifications } from './notifications.ts';
+import { Transport } from './transport.ts';
 import { debug } from './mod.ts';
 
+/** Stream reconnection policy */
+export interface ReconnectPolicy {
+  /** Automatically reopen the stream when the connection drops. */
+  enabled: boolean;
+  /** Delay (ms) before the first reconnection attempt. */
+  initialDelay: number;
+  /** Upper limit (ms) for the delay between attempts. */
+  maxDelay: number;
+  /** Multiplier applied to the delay after each failed attempt. */
+  factor: number;
+  /** Random variation applied to each delay (0 - 1) e.g. 0.2 = +/-20%. */
+  jitter: number;
+  /** Number of attempts before giving up (0 = never give up). */
+  maxAttempts: number;
+}
+
+/** Handler called with each value received for a path
+ * @param value Received value
+ * @param timestamp Update timestamp
+ * @param source Update $source reference
+ * @param path Signal K path of the received value
+ * @param units Units of the supplied value (if known)
+ */
+export type PathValueHandler<T = unknown> = (
+  value: T,
+  timestamp: string | undefined,
+  source: string | undefined,
+  path: string,
+  units?: string,
+) => void;
+
+/** Options for path value listeners */
+export interface PathListenerOptions {
+  /** Convert values to display units using the stream units profile. */
+  convert?: boolean;
+}
+
+/** Options for awaitable stream requests */
+export interface RequestOptions {
+  /** Time (ms) to wait for the final response. (default: 30000) */
+  timeout?: number;
+  /** Called with each intermediate (PENDING) response. */
+  onProgress?: (response: RequestResponse) => void;
+}
+
+/** Options for access requests sent via the stream */
+export interface AccessRequestOptions extends RequestOptions {
+  /** Permissions requested (default: 'admin') */
+  permissions?: AccessPermission;
+}
+
+/** Error raised when a stream request fails or times out */
+export class StreamRequestError extends Error {
+  /** Id of the failed request */
+  requestId: string;
+  /** Response message received from the server (if any) */
+  response?: RequestResponse;
+
+  /**
+   * @param message Error message text
+   * @param requestId Id of the failed request
+   * @param response Response message received from the server
+   */
+  constructor(
+    message: string,
+    requestId: string,
+    response?: RequestResponse,
+  ) {
+    super(message);
+    this.name = 'StreamRequestError';
+    this.requestId = requestId;
+    this.response = response;
+  }
+}
+
 /** Signal K Stream operations */
 export class SignalKStream {
   /** WebSocket connection
@@ -29,12 +128,80 @@ export class SignalKStream {
   /** source value to use in messages
    * @private
    */
-  private _source: any = null;
+  private _source: Source | null = null;
 
   /** Client Id for approved device
    * @private
    */
-  private _clientId: any = '';
+  private _clientId: string | undefined = '';
+
+  /** Reconnection policy
+   * @private
+   */
+  private _reconnect: ReconnectPolicy = {
+    enabled: false,
+    initialDelay: 1000,
+    maxDelay: 30000,
+    factor: 2,
+    jitter: 0.2,
+    maxAttempts: 0,
+  };
+
+  /** Number of reconnection attempts made since the connection dropped
+   * @private
+   */
+  private _reconnectAttempts = 0;
+
+  /** Pending reconnection attempt timer
+   * @private
+   */
+  private _reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Set when the connection was closed by calling close()
+   * @private
+   */
+  private _closeRequested = false;
+
+  /** Parameters supplied to the last call to open()
+   * @private
+   */
+  private _lastOpen: {
+    url: string | (() => string);
+    subscribe?: string;
+    token?: string;
+  } = {
+    url: '',
+  };
+
+  /** Requests awaiting a final response keyed by requestId
+   * @private
+   */
+  private _pending: Map<
+    string,
+    {
+      resolve: (response: RequestResponse) => void;
+      reject: (error: StreamRequestError) => void;
+      onProgress?: (response: RequestResponse) => void;
+      timer: ReturnType<typeof setTimeout>;
+      check?: (response: RequestResponse) => boolean;
+    }
+  > = new Map();
+
+  /** Registered path value listeners
+   * @private
+   */
+  private _pathListeners: Set<{
+    context: string;
+    contextPattern: RegExp;
+    pattern: RegExp;
+    handler: PathValueHandler;
+    convert: boolean;
+  }> = new Set();
+
+  /** Active subscriptions keyed by context
+   * @private
+   */
+  private _subscriptions: Map<string, Array<Subscription>> = new Map();
 
   // **************** ATTRIBUTES ***************************
 
@@ -42,17 +209,33 @@ export class SignalKStream {
   public version = 1;
   /** Connection endpoint */
   public endpoint = '';
+  /** Transports used to communicate with the server (default: global fetch / WebSocket) */
+  public transport: Transport = {};
   /** self identifier value */
   public selfId = '';
+  /** Function called when a request is rejected as unauthorized (401).
+   * Return true to resend the request once with the current token. */
+  public onUnauthorized: (() => Promise<boolean>) | undefined;
+  /** Data model built from received delta messages */
+  public model: SignalKDataModel = new SignalKDataModel();
+  /** Unit conversion used by path value listeners */
+  public units: SignalKUnits = new SignalKUnits();
+  /** Metadata cache updated from received delta messages */
+  public meta: SignalKMetadata = new SignalKMetadata();
+  /** Active notifications received via the stream */
+  public notifications: SignalKNotifications = new SignalKNotifications(
+    (context: string, path: string, value: unknown) =>
+      this.putAsync(context, path, value),
+  );
 
   /** Set source label for use in messages
    * @param val label value
    */
   set source(val: string) {
     if (!this._source) {
-      this._source = {};
+      this._source = { label: val };
     }
-    this._source['label'] = val;
+    this._source.label = val;
   }
 
   /** Set auth token value
@@ -69,6 +252,11 @@ export class SignalKStream {
     this._clientId = val;
   }
 
+  /** Client id used for access requests */
+  get clientId(): string | undefined {
+    return this._clientId;
+  }
+
   /** Get websocket connection timeout 3000<=timeout<=60000 */
   get connectionTimeout(): number {
     return this._wsTimeout;
@@ -79,6 +267,39 @@ export class SignalKStream {
     this._wsTimeout = val < 3000 ? 3000 : val > 60000 ? 60000 : val;
   }
 
+  /** Get stream reconnection policy */
+  get reconnect(): ReconnectPolicy {
+    return { ...this._reconnect };
+  }
+
+  /** Set stream reconnection policy (supplied values are merged with the current policy) */
+  set reconnect(val: Partial<ReconnectPolicy>) {
+    const p = { ...this._reconnect, ...val };
+    p.initialDelay = p.initialDelay < 100 ? 100 : p.initialDelay;
+    p.maxDelay = p.maxDelay < p.initialDelay ? p.initialDelay : p.maxDelay;
+    p.factor = p.factor < 1 ? 1 : p.factor;
+    p.jitter = p.jitter < 0 ? 0 : p.jitter > 1 ? 1 : p.jitter;
+    p.maxAttempts = p.maxAttempts < 0 ? 0 : Math.floor(p.maxAttempts);
+    this._reconnect = p;
+    if (!p.enabled) {
+      this.cancelReconnect();
+    }
+  }
+
+  /** Get active subscriptions keyed by context */
+  get subscriptions(): { [context: string]: Array<Subscription> } {
+    const res: { [context: string]: Array<Subscription> } = {};
+    this._subscriptions.forEach((subs, context) => {
+      res[context] = subs.map((s) => ({ ...s }));
+    });
+    return res;
+  }
+
+  /** Test if a reconnection attempt is in progress */
+  get isReconnecting(): boolean {
+    return this._reconnectAttempts > 0;
+  }
+
   /** Test if WS Stream connected */
   get isOpen(): boolean {
     return this.ws && this.ws.readyState != 1 && this.ws.readyState != 3
@@ -109,18 +330,38 @@ export class SignalKStream {
 
   /** Stream events */
   public events: EventEmitter<{
-    'connect'(ev: Event): any;
-    'close'(ev: Event): any;
-    'error'(ev: Event): any;
-    'message'(ev: MessageEvent): any;
+    'connect'(ev: Event): void;
+    'close'(ev: CloseEvent): void;
+    'error'(ev: Event): void;
+    'message'(msg: StreamMessage): void;
+    'reconnecting'(ev: { attempt: number; delay: number }): void;
+    'reconnected'(ev: { attempts: number }): void;
+    'reconnectFailed'(ev: { attempts: number }): void;
+    'raw'(data: string): void;
   }>;
 
   constructor() {
     this.events = new EventEmitter();
+    // ** use units received in metadata for value conversion **
+    this.meta.events.on('meta', (ev) => {
+      if (typeof ev.meta.units === 'string') {
+        this.units.setUnits(ev.path, ev.meta.units);
+      }
+    });
   }
 
   /** Close WebSocket connection */
   close() {
+    this._closeRequested = true;
+    this.cancelReconnect();
+    this.closeSocket();
+    this.rejectPending('Error: Connection closed!');
+  }
+
+  /** Close the current WebSocket without affecting reconnection
+   * @private
+   */
+  private closeSocket() {
     if (this.ws) {
       this.ws.close();
       this.ws = undefined;
@@ -128,65 +369,160 @@ export class SignalKStream {
   }
 
   /** Open a WebSocket at provided url
-   * @param url Stream endpoint
+   * @param url Stream endpoint or function returning the endpoint (called on each (re)connection)
    * @param subscribe Stream subscription params
    * @param token Authentication token
    */
-  open(url: string, subscribe?: string, token?: string) {
+  open(url: string | (() => string), subscribe?: string, token?: string) {
     url = url ? url : this.endpoint;
     if (!url) {
       return;
     }
-    let q = url.indexOf('?') === -1 ? '?' : '&';
+    this.close();
+    this._closeRequested = false;
+    this._lastOpen = { url: url, subscribe: subscribe, token: token };
+    this.connectSocket();
+  }
+
+  /** Create a WebSocket using the parameters supplied to the last open()
+   * @private
+   */
+  private connectSocket() {
+    let url = typeof this._lastOpen.url === 'function'
+      ? this._lastOpen.url()
+      : this._lastOpen.url;
+    const subscribe = this._lastOpen.subscribe;
+    const token = this._lastOpen.token;
+    const q = url.indexOf('?') === -1 ? '?' : '&';
     if (subscribe) {
       url += `${q}subscribe=${subscribe}`;
     }
     if (this._token || token) {
-      url += `${subscribe ? '&' : '?'}token=${this._token || token}`;
+      url += `${subscribe ? '&' : q}token=${this._token || token}`;
     }
 
-    this.close();
-    this.ws = new WebSocket(url);
+    const ws = new (this.transport.WebSocket ?? WebSocket)(url);
+    this.ws = ws;
     // ** start connection watchdog **
     setTimeout(() => {
-      if (this.ws && this.ws.readyState != 1 && this.ws.readyState != 3) {
+      if (this.ws === ws && ws.readyState != 1 && ws.readyState != 3) {
         console.warn(
           `Connection watchdog expired (${
             this._wsTimeout / 1000
-          } sec): ${this.ws.readyState}... aborting connection...`,
+          } sec): ${ws.readyState}... aborting connection...`,
         );
-        this.close();
+        this.closeSocket();
       }
     }, this._wsTimeout);
 
-    this.ws.onopen = (e: Event) => {
+    ws.onopen = (e: Event) => {
+      // ** send the subscription registry before any 'connect' handlers run **
+      this.resubscribe();
       this.events.emit('connect', e);
+      if (this._reconnectAttempts > 0) {
+        debug(`reconnected after ${this._reconnectAttempts} attempt(s)`);
+        this.events.emit('reconnected', {
+          attempts: this._reconnectAttempts,
+        });
+        this._reconnectAttempts = 0;
+      }
     };
-    this.ws.onclose = (e: Event) => {
+    ws.onclose = (e: CloseEvent) => {
       this.events.emit('close', e);
+      // ** ignore sockets that have been superseded by a new connection **
+      if (this.ws && this.ws !== ws) {
+        return;
+      }
+      this.ws = undefined;
+      this.rejectPending('Error: Connection closed!');
+      if (!this._closeRequested && this._reconnect.enabled) {
+        this.scheduleReconnect();
+      }
     };
-    this.ws.onerror = (e: Event) => {
+    ws.onerror = (e: Event) => {
       this.events.emit('error', e);
+      if (this.ws === ws) {
+        this.rejectPending('Error: Connection error!');
+      }
     };
-    this.ws.onmessage = (e: MessageEvent) => {
+    ws.onmessage = (e: MessageEvent) => {
       this.parseOnMessage(e);
     };
   }
 
+  /** Schedule the next reconnection attempt using the reconnect policy
+   * @private
+   */
+  private scheduleReconnect() {
+    if (this._reconnectTimer) {
+      return;
+    }
+    const p = this._reconnect;
+    if (p.maxAttempts && this._reconnectAttempts >= p.maxAttempts) {
+      debug(
+        `giving up reconnection after ${this._reconnectAttempts} attempt(s)`,
+      );
+      this.events.emit('reconnectFailed', {
+        attempts: this._reconnectAttempts,
+      });
+      this._reconnectAttempts = 0;
+      return;
+    }
+    this._reconnectAttempts++;
+    let delay = Math.min(
+      p.maxDelay,
+      p.initialDelay * Math.pow(p.factor, this._reconnectAttempts - 1),
+    );
+    delay = Math.round(delay + delay * p.jitter * (Math.random() * 2 - 1));
+    debug(`reconnection attempt ${this._reconnectAttempts} in ${delay}ms`);
+    this.events.emit('reconnecting', {
+      attempt: this._reconnectAttempts,
+      delay: delay,
+    });
+    this._reconnectTimer = setTimeout(() => {
+      this._reconnectTimer = undefined;
+      this.connectSocket();
+    }, delay);
+  }
+
+  /** Cancel any pending reconnection attempt
+   * @private
+   */
+  private cancelReconnect() {
+    if (this._reconnectTimer) {
+      clearTimeout(this._reconnectTimer);
+      this._reconnectTimer = undefined;
+    }
+    this._reconnectAttempts = 0;
+  }
+
+  /** Process a message as if it had been received on the WebSocket
+   * (e.g. when replaying a recorded stream)
+   * @param data Stream message (JSON string)
+   */
+  inject(data: string) {
+    this.parseOnMessage(new MessageEvent('message', { data: data }));
+  }
+
   /** Parse received message
    * @param e Received stream message
    */
   private parseOnMessage(e: MessageEvent) {
-    let data: any;
-    if (typeof e.data === 'string') {
-      try {
-        data = JSON.parse(e.data);
-      } catch {
-        return;
-      }
+    let data: StreamMessage;
+    if (typeof e.data !== 'string') {
+      return;
+    }
+    this.events.emit('raw', e.data);
+    try {
+      data = JSON.parse(e.data);
+    } catch {
+      return;
     }
     if (this.isHello(data)) {
       this.selfId = data.self;
+      this.model.selfId = data.self;
+      this.meta.selfId = data.self;
+      this.notifications.selfId = data.self;
       this._playbackMode = typeof data.startTime != 'undefined' ? true : false;
       this.events.emit('message', data);
     } else if (this.isResponse(data)) {
@@ -195,9 +531,14 @@ export class SignalKStream {
           this._token = data.login.token;
         }
       }
+      this.settleRequest(data);
       this.events.emit('message', data);
-    } else if (this._filter && this.isDelta(data)) {
-      if (data.context === this._filter) {
+    } else if (this.isDelta(data)) {
+      this.model.update(data);
+      this.meta.update(data);
+      this.notifications.update(data);
+      this.notifyPathListeners(data);
+      if (!this._filter || data.context === this._filter) {
         this.events.emit('message', data);
       }
     } else {
@@ -205,23 +546,101 @@ export class SignalKStream {
     }
   }
 
+  /** Register a handler for values received for paths matching the supplied pattern
+   * @param context Signal K context e.g. 'self', 'vessels.*', '*'
+   * @param pathPattern Signal K path, can contain wildcards e.g. 'navigation.*'
+   * @param handler Function called with (value, timestamp, source, path, units)
+   * @param options Listener options
+   * @returns Function to call to remove the handler
+   */
+  onPath<P extends string>(
+    context: string,
+    pathPattern: P,
+    handler: PathValueHandler<PathValueType<P>>,
+    options?: PathListenerOptions,
+  ): () => void {
+    context = context === 'vessels.self' ? 'self' : context;
+    const listener = {
+      context: context,
+      contextPattern: SignalKStream.wildcardToRegExp(context),
+      pattern: SignalKStream.wildcardToRegExp(pathPattern),
+      handler: handler as PathValueHandler,
+      convert: options?.convert ? true : false,
+    };
+    this._pathListeners.add(listener);
+    return () => {
+      this._pathListeners.delete(listener);
+    };
+  }
+
+  /** Call path listeners for each matching value in a delta message
+   * @private
+   * @param msg Received delta message
+   */
+  private notifyPathListeners(msg: Delta) {
+    if (this._pathListeners.size === 0 || !Array.isArray(msg.updates)) {
+      return;
+    }
+    const listeners = Array.from(this._pathListeners).filter((l) => {
+      if (l.context === 'self') {
+        return this.isSelf(msg);
+      }
+      return l.contextPattern.test(msg.context);
+    });
+    if (listeners.length === 0) {
+      return;
+    }
+    msg.updates.forEach((u: Update) => {
+      if (!Array.isArray(u.values)) {
+        return;
+      }
+      const source = u.$source ?? SignalKDataModel.sourceRef(u.source);
+      u.values.forEach((v: PathValue) => {
+        listeners.forEach((l) => {
+          if (l.pattern.test(v.path)) {
+            try {
+              const c = l.convert
+                ? this.units.convert(v.path, v.value)
+                : { value: v.value, units: this.units.unitsFor(v.path) };
+              l.handler(c.value, u.timestamp, source, v.path, c.units);
+            } catch (err) {
+              debug('onPath handler error: ', err);
+            }
+          }
+        });
+      });
+    });
+  }
+
+  /** Return RegExp for a path / context containing '*' wildcards
+   * @private
+   * @param value Path or context value
+   */
+  private static wildcardToRegExp(value: string): RegExp {
+    const p = value
+      .split('*')
+      .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    return new RegExp(`^${p}$`);
+  }
+
   /** Send request via stream
    * @param value Stream message payload
    * @returns String containing requestId
    */
-  sendRequest(value: any): string {
+  sendRequest(value: { [key: string]: unknown }): string {
     if (typeof value !== 'object') {
       return '';
     }
-    const msg: any = Message.request();
+    const msg = Message.request();
     debug('requestId: ', msg.requestId);
     debug('_token: ', this._token);
     if (typeof value.login === 'undefined' && this._token) {
-      msg['token'] = this._token;
+      msg.token = this._token;
     }
     debug('_clientId: ', this._clientId);
     if (this._clientId) {
-      msg['clientId'] = this._clientId;
+      msg.clientId = this._clientId;
     }
     const keys = Object.keys(value);
     keys.forEach((k) => {
@@ -238,7 +657,11 @@ export class SignalKStream {
    * @param value Value to apply to supplied path
    * @returns String containing requestId
    */
-  put(context: string, path: string, value: any): string {
+  put<P extends string>(
+    context: string,
+    path: P,
+    value: PathValueType<P>,
+  ): string {
     const msg = {
       context: context === 'self' ? 'vessels.self' : context,
       put: { path: path, value: value },
@@ -261,13 +684,15 @@ export class SignalKStream {
   /** Send data via Signal K stream
    * @param data Signal K stream message
    */
-  send(data: any) {
-    if (this.ws) {
+  send(data: string | object) {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
       if (typeof data === 'object') {
         data = JSON.stringify(data);
       }
       debug(`sending -> `, data);
       this.ws.send(data);
+    } else {
+      debug(`stream not open, discarding -> `, data);
     }
   }
 
@@ -280,96 +705,140 @@ export class SignalKStream {
    * @param {String} path Signal K path value
    * @param {String} value Value to apply to supplied path
    */
-  sendUpdate(context: string, path: Array<any>): void;
-  sendUpdate(context: string, path: string, value: any): void;
+  sendUpdate(context: string, path: Array<PathValue>): void;
+  sendUpdate<P extends string>(
+    context: string,
+    path: P,
+    value: PathValueType<P>,
+  ): void;
   sendUpdate(
     context = 'self',
-    path: string | Array<any>,
-    value?: any,
+    path: string | Array<PathValue>,
+    value?: unknown,
   ) {
-    const val: any = Message.updates();
+    const val = Message.updates();
     if (this._token) {
-      val['token'] = this._token;
+      val.token = this._token;
     }
     debug('_clientId: ', this._clientId);
     if (this._clientId) {
-      val['clientId'] = this._clientId;
+      val.clientId = this._clientId;
     }
     val.context = context === 'self' ? 'vessels.self' : context;
 
-    let uValues = [];
+    let uValues: Array<PathValue> = [];
     if (typeof path === 'string') {
       uValues.push({ path: path, value: value });
     }
     if (typeof path === 'object' && Array.isArray(path)) {
       uValues = path;
     }
-    const u: any = {
+    const u: Update = {
       timestamp: new Date().toISOString(),
       values: uValues,
     };
     if (this._source) {
-      u['source'] = this._source;
+      u.source = this._source;
     }
     val.updates.push(u);
     this.send(val);
   }
 
-  /** Subscribe to Delta stream messages
+  /** Send metadata via delta stream update
    * @param context Signal K context
    * @param {Array} path Array of {path: , value: } objects
    */
+  /** Send metadata via delta stream update
+   * @param context Signal K context
+   * @param {String} path Signal K path value
+   * @param meta Metadata to apply to supplied path e.g. units, displayName, zones
+   */
+  sendMeta(context: string, path: Array<PathMeta>): void;
+  sendMeta(context: string, path: string, meta: Meta): void;
+  sendMeta(context = 'self', path: string | Array<PathMeta>, meta?: Meta) {
+    const val = Message.updates();
+    if (this._token) {
+      val.token = this._token;
+    }
+    if (this._clientId) {
+      val.clientId = this._clientId;
+    }
+    val.context = context === 'self' ? 'vessels.self' : context;
+
+    let uMeta: Array<PathMeta> = [];
+    if (typeof path === 'string' && meta) {
+      uMeta.push({ path: path, value: meta });
+    }
+    if (typeof path === 'object' && Array.isArray(path)) {
+      uMeta = path;
+    }
+    const u: Update = {
+      timestamp: new Date().toISOString(),
+      meta: uMeta,
+    };
+    if (this._source) {
+      u.source = this._source;
+    }
+    val.updates.push(u);
+    this.send(val);
+  }
+
+  /** Subscribe to Delta stream messages
+   * @param context Signal K context
+   * @param {Array} path Array of Subscription objects
+   */
   /** Subscribe to Delta stream messages
    * @param context Signal K context
    * @param {String} path Signal K path value
    * @param options Subscription options
    */
-  subscribe(context: string, path: Array<any>): void;
-  subscribe(context: string, path: string, options?: any): void;
+  subscribe(context: string, path: Array<Subscription>): void;
+  subscribe(
+    context: string,
+    path: string,
+    options?: SubscriptionOptions,
+  ): void;
   subscribe(
     context = '*',
-    path: string | Array<any> = '*',
-    options?: any,
+    path: string | Array<Subscription> = '*',
+    options?: SubscriptionOptions,
   ) {
-    const val: any = Message.subscribe();
+    const val = Message.subscribe();
     if (this._token) {
-      val['token'] = this._token;
+      val.token = this._token;
     }
     val.context = context === 'self' ? 'vessels.self' : context;
-    if (this._token) {
-      val['token'] = this._token;
-    }
 
     if (typeof path === 'object' && Array.isArray(path)) {
       val.subscribe = path;
     }
     if (typeof path === 'string') {
-      const sValue: any = {};
-      sValue['path'] = path;
+      const sValue: Subscription = { path: path };
       if (options && typeof options === 'object') {
-        if (options['period']) {
-          sValue['period'] = options['period'];
+        if (options.period) {
+          sValue.period = options.period;
         }
-        if (options['minPeriod']) {
-          sValue['minPeriod'] = options['period'];
+        if (options.minPeriod) {
+          sValue.minPeriod = options.minPeriod;
         }
         if (
-          options['format'] &&
-          (options['format'] === 'delta' || options['format'] === 'full')
+          options.format &&
+          (options.format === 'delta' || options.format === 'full')
         ) {
-          sValue['format'] = options['format'];
+          sValue.format = options.format;
         }
         if (
-          options['policy'] &&
-          (options['policy'] === 'instant' ||
-            options['policy'] === 'ideal' ||
-            options['policy'] === 'fixed')
+          options.policy &&
+          (options.policy === 'instant' ||
+            options.policy === 'ideal' ||
+            options.policy === 'fixed')
         ) {
-          sValue['policy'] = options['policy'];
+          sValue.policy = options.policy;
         }
       }
       val.subscribe.push(sValue);
     }
+    this.addSubscriptions(val.context, val.subscribe);
     this.send(val);
   }
 
@@ -377,33 +846,101 @@ export class SignalKStream {
    * @param context Signal K context
    * @param path Signal K path value
    */
-  unsubscribe(context = '*', path = '*') {
-    const val: any = Message.unsubscribe();
+  unsubscribe(
+    context = '*',
+    path: string | Array<{ path: string } | string> = '*',
+  ) {
+    const val = Message.unsubscribe();
     if (this._token) {
-      val['token'] = this._token;
+      val.token = this._token;
     }
     val.context = context === 'self' ? 'vessels.self' : context;
-    if (this._token) {
-      val['token'] = this._token;
-    }
 
     if (typeof path === 'object' && Array.isArray(path)) {
-      val.unsubscribe = path;
+      val.unsubscribe = path.map((p) =>
+        typeof p === 'string' ? { path: p } : p
+      );
     }
     if (typeof path === 'string') {
       val.unsubscribe.push({ path: path });
     }
+    this.removeSubscriptions(val.context, val.unsubscribe);
     this.send(val);
   }
 
+  /** Re-send all active subscriptions to the server (called each time the stream opens). */
+  resubscribe() {
+    this._subscriptions.forEach((subs, context) => {
+      const val = Message.subscribe();
+      if (this._token) {
+        val.token = this._token;
+      }
+      val.context = context;
+      val.subscribe = subs.map((s) => ({ ...s }));
+      debug(`resubscribe ${context}: `, val.subscribe);
+      this.send(val);
+    });
+  }
+
+  /** Add entries to the subscription registry, replacing entries for the same path
+   * @private
+   * @param context Signal K context
+   * @param subs Subscriptions to add
+   */
+  private addSubscriptions(context: string, subs: Array<Subscription>) {
+    const entries = this._subscriptions.get(context) ?? [];
+    subs.forEach((sub) => {
+      if (!sub || !sub.path) {
+        return;
+      }
+      const idx = entries.findIndex((e) => e.path === sub.path);
+      if (idx === -1) {
+        entries.push({ ...sub });
+      } else {
+        entries[idx] = { ...entries[idx], ...sub };
+      }
+    });
+    if (entries.length !== 0) {
+      this._subscriptions.set(context, entries);
+    }
+  }
+
+  /** Remove entries from the subscription registry
+   * @private
+   * @param context Signal K context ('*' = all contexts)
+   * @param paths Paths to remove ('*' = all paths)
+   */
+  private removeSubscriptions(context: string, paths: Array<{ path: string }>) {
+    const p = paths.map((i) => i.path);
+    const contexts = context === '*'
+      ? Array.from(this._subscriptions.keys())
+      : [context];
+    contexts.forEach((c) => {
+      const entries = this._subscriptions.get(c);
+      if (!entries) {
+        return;
+      }
+      const remaining = p.includes('*')
+        ? []
+        : entries.filter((e) => !p.includes(e.path));
+      if (remaining.length === 0) {
+        this._subscriptions.delete(c);
+      } else {
+        this._subscriptions.set(c, remaining);
+      }
+    });
+  }
+
   /** Access request
    * @param name Name of sensor / process requesting access
    * @param id Client id
+   * @param permissions Permissions requested (default: 'admin')
    * @returns requestId
    */
   accessRequest(
     name: string,
     id?: string,
+    permissions: AccessPermission = 'admin',
   ): string {
     if (!name) {
       throw new Error('Error: Name not supplied!');
@@ -420,13 +957,184 @@ export class SignalKStream {
       accessRequest: {
         clientId: this.clientId,
         description: name,
-        permissions: 'admin',
+        permissions: permissions,
       },
     };
     this.send(req);
     return req.requestId;
   }
 
+  /** Send request via stream and wait for the final response
+   * @param value Stream message payload
+   * @param options Request options
+   * @returns Promise resolving with the COMPLETED response message
+   */
+  sendRequestAsync(
+    value: { [key: string]: unknown },
+    options?: RequestOptions,
+  ): Promise<RequestResponse> {
+    if (typeof value !== 'object') {
+      return Promise.reject(new Error('Error: Invalid request value!'));
+    }
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Error: Stream is not open!'));
+    }
+    const res = this.awaitResponse(this.sendRequest(value), options);
+    if (typeof value.login !== 'undefined' || !this.onUnauthorized) {
+      return res;
+    }
+    return res.catch(async (err) => {
+      if (
+        err instanceof StreamRequestError &&
+        err.response?.statusCode === 401 &&
+        this.onUnauthorized && (await this.onUnauthorized()) &&
+        this.ws?.readyState === WebSocket.OPEN
+      ) {
+        debug('resend request: ', err.requestId);
+        return this.awaitResponse(this.sendRequest(value), options);
+      }
+      throw err;
+    });
+  }
+
+  /** Send PUT request via stream and wait for the final response
+   * @param context Signal K context
+   * @param path Signal K path value
+   * @param value Value to apply to supplied path
+   * @param options Request options
+   * @returns Promise resolving with the COMPLETED response message
+   */
+  putAsync<P extends string>(
+    context: string,
+    path: P,
+    value: PathValueType<P>,
+    options?: RequestOptions,
+  ): Promise<RequestResponse> {
+    const msg = {
+      context: context === 'self' ? 'vessels.self' : context,
+      put: { path: path, value: value },
+    };
+    return this.sendRequestAsync(msg, options);
+  }
+
+  /** Login with supplied user details and wait for the final response.
+   * The returned token is retained for use in subsequent requests.
+   * @param username User account id
+   * @param password User password
+   * @param options Request options
+   * @returns Promise resolving with the COMPLETED response message
+   */
+  loginAsync(
+    username: string,
+    password: string,
+    options?: RequestOptions,
+  ): Promise<RequestResponse> {
+    const msg = {
+      login: { username: username, password: password },
+    };
+    return this.sendRequestAsync(msg, options);
+  }
+
+  /** Access request that waits for the request to be approved or denied.
+   * @param name Name of sensor / process requesting access
+   * @param id Client id
+   * @param options Request options
+   * @returns Promise resolving with the COMPLETED (approved) response message
+   */
+  accessRequestAsync(
+    name: string,
+    id?: string,
+    options?: AccessRequestOptions,
+  ): Promise<RequestResponse> {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Error: Stream is not open!'));
+    }
+    return this.awaitResponse(
+      this.accessRequest(name, id, options?.permissions),
+      options,
+      (response: RequestResponse) =>
+        !response.accessRequest ||
+        response.accessRequest.permission !== 'DENIED',
+    );
+  }
+
+  /** Register a pending request and return a Promise for its final response
+   * @private
+   * @param requestId Id of the sent request
+   * @param options Request options
+   * @param check Returns false if a COMPLETED response is a failure
+   */
+  private awaitResponse(
+    requestId: string,
+    options?: RequestOptions,
+    check?: (response: RequestResponse) => boolean,
+  ): Promise<RequestResponse> {
+    const timeout = options?.timeout ?? 30000;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this._pending.delete(requestId);
+        reject(
+          new StreamRequestError(
+            `Error: Request timed out (${timeout / 1000} sec)!`,
+            requestId,
+          ),
+        );
+      }, timeout);
+      this._pending.set(requestId, {
+        resolve: resolve,
+        reject: reject,
+        onProgress: options?.onProgress,
+        timer: timer,
+        check: check,
+      });
+    });
+  }
+
+  /** Settle a pending request with the received response message
+   * @private
+   * @param msg Received response message
+   */
+  private settleRequest(msg: RequestResponse) {
+    const req = this._pending.get(msg.requestId);
+    if (!req) {
+      return;
+    }
+    if (msg.state === 'PENDING') {
+      if (typeof req.onProgress === 'function') {
+        req.onProgress(msg);
+      }
+      return;
+    }
+    clearTimeout(req.timer);
+    this._pending.delete(msg.requestId);
+    const ok = msg.state === 'COMPLETED' &&
+      (typeof msg.statusCode === 'undefined' || msg.statusCode < 300) &&
+      (!req.check || req.check(msg));
+    if (ok) {
+      req.resolve(msg);
+    } else {
+      req.reject(
+        new StreamRequestError(
+          `Error: Request failed! (${msg.statusCode}) ${msg.message ?? ''}`,
+          msg.requestId,
+          msg,
+        ),
+      );
+    }
+  }
+
+  /** Reject all pending requests
+   * @private
+   * @param message Error message text
+   */
+  private rejectPending(message: string) {
+    this._pending.forEach((req, requestId) => {
+      clearTimeout(req.timer);
+      req.reject(new StreamRequestError(message, requestId));
+    });
+    this._pending.clear();
+  }
+
   /** Raise alarm
    * @param context Signal K context
    * @param name Alarm name
@@ -466,28 +1174,38 @@ export class SignalKStream {
   /** Tests if message context is 'self'
    * @param msg Received stream message
    */
-  isSelf(msg: any): boolean {
+  isSelf(msg: Delta): boolean {
     return msg.context === this.selfId;
   }
 
   /** Tests if message is a Delta message
    * @param msg Received stream message
    */
-  isDelta(msg: any): boolean {
-    return typeof msg.context != 'undefined';
+  isDelta(msg: unknown): msg is Delta {
+    return this.isObject(msg) && typeof msg.context != 'undefined' &&
+      Array.isArray(msg.updates);
   }
 
   /** Tests if message is a Hello message
    * @param msg Received stream message
    */
-  isHello(msg: any): boolean {
-    return typeof msg.version != 'undefined' && typeof msg.self != 'undefined';
+  isHello(msg: unknown): msg is Hello {
+    return this.isObject(msg) && typeof msg.version != 'undefined' &&
+      typeof msg.self != 'undefined';
   }
 
   /** Tests if message is a request Response message
    * @param msg Received stream message
    */
-  isResponse(msg: any): boolean {
-    return typeof msg.requestId != 'undefined';
+  isResponse(msg: unknown): msg is RequestResponse {
+    return this.isObject(msg) && typeof msg.requestId != 'undefined';
+  }
+
+  /** Tests if value is a (non null) object
+   * @private
+   * @param msg Value to test
+   */
+  private isObject(msg: unknown): msg is { [key: string]: unknown } {
+    return typeof msg === 'object' && msg !== null;
   }
 }
@@ -0,0 +1,274 @@
+import {
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { SignalKStream, StreamRequestError } from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Wait for the supplied stream event */
+function once(
+  stream: SignalKStream,
+  event: 'connect' | 'close' | 'reconnected',
+): Promise<void> {
+  return new Promise((resolve) => stream.events.once(event, () => resolve()));
+}
+
+Deno.test('stream reconnects after the connection drops', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10 };
+  const attempts: Array<number> = [];
+  stream.events.on('reconnecting', (ev) => attempts.push(ev.attempt));
+  try {
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+
+    const reconnected = once(stream, 'reconnected');
+    server.closeConnections();
+    await reconnected;
+    assertEquals(attempts, [1]);
+    assertEquals(stream.isReconnecting, false);
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('close() stops reconnection', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10 };
+  let attempts = 0;
+  stream.events.on('reconnecting', () => attempts++);
+  try {
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+    const closed = once(stream, 'close');
+    stream.close();
+    await closed;
+    assertEquals(attempts, 0);
+    assertEquals(stream.isReconnecting, false);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('reconnection gives up after maxAttempts', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10, maxAttempts: 2 };
+  try {
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+    const failed = new Promise<number>((resolve) =>
+      stream.events.once('reconnectFailed', (ev) => resolve(ev.attempts))
+    );
+    await server.stop();
+    assertEquals(await failed, 2);
+    assertEquals(stream.isReconnecting, false);
+  } finally {
+    stream.close();
+  }
+});
+
+Deno.test('stream restores subscriptions once after reconnecting', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  stream.reconnect = { enabled: true, initialDelay: 10 };
+  const messages: Array<unknown> = [];
+  server.events.on('message', (msg) => messages.push(msg));
+  try {
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+    const subscribed = new Promise<unknown>((resolve) =>
+      server.events.once('message', resolve)
+    );
+    stream.subscribe('self', 'navigation.*', { period: 1000 });
+    await subscribed;
+
+    const reconnected = once(stream, 'reconnected');
+    const resubscribed = new Promise<unknown>((resolve) =>
+      server.events.once('message', resolve)
+    );
+    server.closeConnections();
+    await reconnected;
+    const expected = {
+      context: 'vessels.self',
+      subscribe: [{ path: 'navigation.*', period: 1000 }],
+    };
+    assertEquals(await resubscribed, expected);
+    assertEquals(messages, [expected, expected]);
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('subscriptions made before open are sent on connect', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  const messages: Array<unknown> = [];
+  server.events.on('message', (msg) => messages.push(msg));
+  try {
+    stream.subscribe('self', 'environment.wind.*');
+    assertEquals(stream.subscriptions, {
+      'vessels.self': [{ path: 'environment.wind.*' }],
+    });
+    const subscribed = new Promise<unknown>((resolve) =>
+      server.events.once('message', resolve)
+    );
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    assertEquals(await subscribed, {
+      context: 'vessels.self',
+      subscribe: [{ path: 'environment.wind.*' }],
+    });
+
+    const unsubscribed = new Promise<unknown>((resolve) =>
+      server.events.once('message', resolve)
+    );
+    stream.unsubscribe('self', 'environment.wind.*');
+    assertEquals(stream.subscriptions, {});
+    assertEquals(await unsubscribed, {
+      context: 'vessels.self',
+      unsubscribe: [{ path: 'environment.wind.*' }],
+    });
+    assertEquals(messages.length, 2);
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('pending requests are rejected when the connection drops', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  // ** leave access requests pending until the connection is closed **
+  server.events.on('accessRequest', () => server.closeConnections());
+  try {
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    await connected;
+    await assertRejects(
+      () => stream.accessRequestAsync('test device'),
+      StreamRequestError,
+      'Connection closed',
+    );
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('requests are rejected when the stream is not open', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const stream = new SignalKStream();
+  try {
+    await assertRejects(
+      () => stream.putAsync('self', 'steering.rudderAngle', 0.1),
+      Error,
+      'Stream is not open',
+    );
+    const connected = once(stream, 'connect');
+    stream.open(`ws://127.0.0.1:${port}/signalk/v1/stream`, 'none');
+    // ** still connecting **
+    await assertRejects(
+      () => stream.putAsync('self', 'steering.rudderAngle', 0.1),
+      Error,
+      'Stream is not open',
+    );
+    await connected;
+  } finally {
+    stream.close();
+    await server.stop();
+  }
+});
+
+Deno.test('onPath() calls handlers for matching contexts and paths', () => {
+  const stream = new SignalKStream();
+  const self = 'vessels.urn:mrn:signalk:uuid:mock-vessel';
+  stream.inject(JSON.stringify({ self: self, version: '1.7.0' }));
+  const received: Array<[string, unknown, string | undefined]> = [];
+  const remove = stream.onPath(
+    'self',
+    'navigation.*',
+    (value, _timestamp, source, path) =>
+      received.push([path as string, value, source]),
+  );
+  const others: Array<string> = [];
+  stream.onPath('vessels.*', 'name', (value) => others.push(value as string));
+  const delta = (context: string, values: Array<unknown>) =>
+    JSON.stringify({
+      context: context,
+      updates: [{ $source: 'n2k.115', values: values }],
+    });
+
+  stream.inject(delta(self, [
+    { path: 'navigation.speedOverGround', value: 3.2 },
+    { path: 'environment.depth.belowKeel', value: 5 },
+  ]));
+  stream.inject(delta('vessels.urn:mrn:imo:mmsi:123456789', [
+    { path: 'navigation.speedOverGround', value: 6 },
+    { path: 'name', value: 'Other' },
+  ]));
+  assertEquals(received, [['navigation.speedOverGround', 3.2, 'n2k.115']]);
+  assertEquals(others, ['Other']);
+
+  remove();
+  stream.inject(delta(self, [{ path: 'navigation.headingTrue', value: 1 }]));
+  assertEquals(received.length, 1);
+});
+
+Deno.test('onPath() handler errors do not affect other handlers', () => {
+  const stream = new SignalKStream();
+  const values: Array<unknown> = [];
+  stream.onPath('*', 'navigation.headingTrue', () => {
+    throw new Error('handler failure');
+  });
+  stream.onPath('*', 'navigation.headingTrue', (value) => values.push(value));
+  stream.inject(JSON.stringify({
+    context: 'vessels.self',
+    updates: [{ values: [{ path: 'navigation.headingTrue', value: 1.5 }] }],
+  }));
+  assertEquals(values, [1.5]);
+});
+
+Deno.test('message type guards identify stream messages', () => {
+  const stream = new SignalKStream();
+  const hello = { self: 'vessels.self', version: '1.7.0', roles: [] };
+  const delta = { context: 'vessels.self', updates: [] };
+  const response = { requestId: '1', state: 'COMPLETED', statusCode: 200 };
+  assertEquals(stream.isHello(hello), true);
+  assertEquals(stream.isDelta(hello), false);
+  assertEquals(stream.isDelta(delta), true);
+  assertEquals(stream.isResponse(delta), false);
+  assertEquals(stream.isResponse(response), true);
+  assertEquals(stream.isHello(null), false);
+  assertEquals(stream.isDelta('{}'), false);
+});
+
+Deno.test('message event receives parsed messages', () => {
+  const stream = new SignalKStream();
+  const messages: Array<unknown> = [];
+  const raw: Array<string> = [];
+  stream.events.on('message', (msg) => messages.push(msg));
+  stream.events.on('raw', (msg) => raw.push(msg));
+  const delta = {
+    context: 'vessels.self',
+    updates: [{ values: [{ path: 'navigation.headingTrue', value: 1.5 }] }],
+  };
+  stream.inject(JSON.stringify(delta));
+  stream.inject('not json');
+  assertEquals(messages, [delta]);
+  assertEquals(raw, [JSON.stringify(delta), 'not json']);
+});
@@ -0,0 +1,2 @@
+/** Test utilities (not exported from mod.ts so consumers do not load them) */
+export * from './mock-server.ts';
@@ -0,0 +1,200 @@
+import { EventEmitter } from 'https://deno.land/x/eventemitter@1.2.1/mod.ts';
+import { SignalKClient } from './signalk-client.ts';
+import { debug } from './mod.ts';
+
+/** Largest delay supported by setTimeout (ms) */
+const MAX_DELAY = 0x7fffffff;
+
+/** Keeps the authentication token of a client alive */
+export class SignalKTokenManager {
+  /** Client whose token is managed
+   * @private
+   */
+  private _client: SignalKClient;
+
+  /** Current token
+   * @private
+   */
+  private _token = '';
+
+  /** Timer for the next token refresh
+   * @private
+   */
+  private _timer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Re-authentication in progress
+   * @private
+   */
+  private _reauth: Promise<boolean> | undefined;
+
+  /** If false, tokens are not refreshed automatically before expiry (default: true) */
+  public enabled = true;
+
+  /** Number of seconds before expiry at which to refresh the token (default: 60) */
+  public refreshBefore = 60;
+
+  /** Credentials used to login again if the token cannot be refreshed */
+  public credentials: { username: string; password: string } | undefined;
+
+  /** Token events */
+  public events: EventEmitter<{
+    'authRefreshed'(ev: { token: string; expires: Date | null }): void;
+    'authExpired'(ev: { token: string }): void;
+  }>;
+
+  /** @param client Client whose token is managed */
+  constructor(client: SignalKClient) {
+    this._client = client;
+    this.events = new EventEmitter();
+  }
+
+  /** Current token */
+  get token(): string {
+    return this._token;
+  }
+
+  /** Expiry time of the current token (null if unknown) */
+  get expires(): Date | null {
+    return SignalKTokenManager.expiry(this._token);
+  }
+
+  /** Track a new token and schedule its refresh
+   * (called when the client authToken is set)
+   * @param token Token value
+   */
+  watch(token: string) {
+    this._token = token;
+    this.schedule();
+  }
+
+  /** Stop refreshing the token */
+  stop() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  /** Refresh the token using validate()
+   * @returns true if the token was refreshed
+   */
+  async refresh(): Promise<boolean> {
+    if (!this._token) {
+      return false;
+    }
+    try {
+      const result = await this._client.validate();
+      if (result.ok && result.token) {
+        debug('token refreshed');
+        this.events.emit('authRefreshed', {
+          token: result.token,
+          expires: SignalKTokenManager.expiry(result.token),
+        });
+        return true;
+      }
+    } catch (err) {
+      debug('token refresh failed: ', err);
+    }
+    return false;
+  }
+
+  /** Obtain a new token by refreshing the current token or logging in with
+   * the stored credentials. Concurrent calls share the same attempt.
+   * @returns true if a new token was obtained (false if there is no token or credentials)
+   */
+  reauthenticate(): Promise<boolean> {
+    if (!this._token && !this.credentials) {
+      return Promise.resolve(false);
+    }
+    if (!this._reauth) {
+      this._reauth = this.renew().finally(() => {
+        this._reauth = undefined;
+      });
+    }
+    return this._reauth;
+  }
+
+  /** Return the expiry time contained in a JWT
+   * @param token JWT token
+   * @returns Expiry time or null if token does not contain an expiry time
+   */
+  static expiry(token: string): Date | null {
+    const parts = token ? token.split('.') : [];
+    if (parts.length !== 3) {
+      return null;
+    }
+    try {
+      let p = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+      p += '='.repeat((4 - (p.length % 4)) % 4);
+      const payload = JSON.parse(atob(p));
+      return typeof payload.exp === 'number'
+        ? new Date(payload.exp * 1000)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Refresh the token or login with the stored credentials
+   * @private
+   */
+  private async renew(): Promise<boolean> {
+    const token = this._token;
+    if (await this.refresh()) {
+      return true;
+    }
+    if (this.credentials) {
+      try {
+        const result = await this._client.login(
+          this.credentials.username,
+          this.credentials.password,
+        );
+        if (result.ok && result.token) {
+          debug('token renewed by login');
+          this.events.emit('authRefreshed', {
+            token: result.token,
+            expires: SignalKTokenManager.expiry(result.token),
+          });
+          return true;
+        }
+      } catch (err) {
+        debug('login failed: ', err);
+      }
+    }
+    debug('token expired');
+    this.stop();
+    this.events.emit('authExpired', { token: token });
+    return false;
+  }
+
+  /** Schedule refresh of the current token before it expires
+   * @private
+   */
+  private schedule() {
+    this.stop();
+    const expires = this.expires;
+    if (!this.enabled || !expires) {
+      return;
+    }
+    const remaining = expires.getTime() - Date.now();
+    // ** refresh short lived tokens at half their remaining lifetime **
+    const delay = remaining > this.refreshBefore * 1000
+      ? remaining - this.refreshBefore * 1000
+      : remaining / 2;
+    if (delay <= 0) {
+      this.reauthenticate();
+      return;
+    }
+    const timer = setTimeout(() => {
+      this._timer = undefined;
+      if (delay > MAX_DELAY) {
+        this.schedule();
+      } else {
+        this.reauthenticate();
+      }
+    }, Math.min(delay, MAX_DELAY));
+    this._timer = timer;
+    // ** do not keep the process alive just to refresh the token **
+    Deno.unrefTimer(timer);
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  SignalKClient,
+  SignalKTokenManager,
+  UnauthorizedError,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+/** Script v2 API responses requiring a valid token */
+function secureV2(server: SignalKMockServer) {
+  server.respond('GET', '/signalk/v2/api/*', (req) => {
+    const token = req.headers.get('Authorization')?.replace('JWT ', '');
+    return server.isValidToken(token)
+      ? { body: req.path.endsWith('/history/paths') ? [] : {} }
+      : { status: 401, body: { message: 'Unauthorized' } };
+  });
+}
+
+Deno.test('expiry() returns the expiry time of a JWT', () => {
+  const server = new SignalKMockServer({ tokenTtl: 60 });
+  const token = server.issueToken('admin');
+  const expires = SignalKTokenManager.expiry(token)?.getTime() ?? 0;
+  assert(Math.abs(expires - (Date.now() + 60000)) < 2000);
+  assertEquals(SignalKTokenManager.expiry('not-a-jwt'), null);
+});
+
+Deno.test('v2 API requests re-authenticate and retry once on 401', async () => {
+  const server = new SignalKMockServer({
+    users: { admin: 'password' },
+    security: true,
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  secureV2(server);
+  const refreshed: Array<string> = [];
+  client.auth.events.on('authRefreshed', (ev) => refreshed.push(ev.token));
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const { token } = await client.login('admin', 'password');
+    client.auth.credentials = { username: 'admin', password: 'password' };
+
+    // ** token cannot be refreshed so the client logs in again **
+    server.revokeToken(token);
+    assertEquals(await client.resources.list('routes'), {});
+    assertEquals(refreshed.length, 1);
+    assert(server.isValidToken(client.auth.token));
+
+    for (
+      const request of [
+        () => client.course.getCourse(),
+        () => client.autopilot.list(),
+        () => client.history.getPaths(),
+      ]
+    ) {
+      server.revokeToken(client.auth.token);
+      await request();
+    }
+    assertEquals(refreshed.length, 4);
+  } finally {
+    client.auth.stop();
+    await server.stop();
+  }
+});
+
+Deno.test('401 is returned when there is no token to renew', async () => {
+  const server = new SignalKMockServer({ security: true });
+  const port = await server.start();
+  const client = new SignalKClient();
+  secureV2(server);
+  let expired = 0;
+  client.auth.events.on('authExpired', () => expired++);
+  try {
+    await client.connect('127.0.0.1', port, false);
+    await assertRejects(
+      () => client.resources.list('routes'),
+      UnauthorizedError,
+    );
+    assertEquals(expired, 0);
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('tokens are refreshed before they expire', async () => {
+  const server = new SignalKMockServer({
+    users: { admin: 'password' },
+    tokenTtl: 1,
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const refreshed = new Promise<string>((resolve) =>
+      client.auth.events.once('authRefreshed', (ev) => resolve(ev.token))
+    );
+    const { token } = await client.login('admin', 'password');
+    const renewed = await refreshed;
+    assert(renewed !== token);
+    assert(server.isValidToken(renewed));
+    assertEquals(client.auth.token, renewed);
+  } finally {
+    client.auth.stop();
+    await server.stop();
+  }
+});
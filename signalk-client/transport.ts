@@ -0,0 +1,21 @@
+/** fetch compatible function used to send HTTP requests */
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: RequestInit,
+) => Promise<Response>;
+
+/** WebSocket compatible constructor used to open streams */
+export type WebSocketConstructor = new (
+  url: string | URL,
+  protocols?: string | string[],
+) => WebSocket;
+
+/** Transports used to communicate with the Signal K server
+ * (defaults: global fetch and WebSocket) */
+export interface Transport {
+  /** Function used to send HTTP requests
+   * e.g. `(url, init) => fetch(url, { ...init, client: httpClient })` */
+  fetch?: FetchFunction;
+  /** Constructor used to open WebSocket connections */
+  WebSocket?: WebSocketConstructor;
+}
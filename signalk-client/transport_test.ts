@@ -0,0 +1,104 @@
+import {
+  assert,
+  assertEquals,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import { FetchFunction, SignalKClient } from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+Deno.test('requests are sent with the injected fetch function', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const sent: Array<string> = [];
+  const recordingFetch: FetchFunction = (input, init) => {
+    sent.push(new URL(input instanceof Request ? input.url : input).pathname);
+    return fetch(input, init);
+  };
+  const client = new SignalKClient({ fetch: recordingFetch });
+  try {
+    server.respond('GET', '/signalk/v2/api/resources/routes', { body: {} });
+    server.respond('GET', '/signalk/v1/apps/list', { body: [] });
+    await client.connect('127.0.0.1', port, false);
+    await client.api.getSelfId();
+    await client.apps.list();
+    await client.resources.list('routes');
+    assert(sent.includes('/signalk'));
+    assert(sent.includes('/signalk/v1/api/self'));
+    assert(sent.includes('/signalk/v1/apps/list'));
+    assert(sent.includes('/signalk/v2/api/resources/routes'));
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('fake fetch function responds without a server', async () => {
+  const fakeFetch: FetchFunction = (input) => {
+    const path = new URL(input instanceof Request ? input.url : input)
+      .pathname;
+    const body = path === '/signalk'
+      ? {
+        endpoints: {
+          v1: {
+            version: '1.7.0',
+            'signalk-http': 'http://fake:3000/signalk/v1/api/',
+            'signalk-ws': 'ws://fake:3000/signalk/v1/stream',
+          },
+        },
+        server: { id: 'fake-server', version: '2.0.0' },
+      }
+      : path === '/signalk/v1/api/vessels/self/name'
+      ? 'Fake'
+      : undefined;
+    return Promise.resolve(
+      body === undefined
+        ? new Response('{"message":"Not found"}', { status: 404 })
+        : Response.json(body),
+    );
+  };
+  const client = new SignalKClient({ fetch: fakeFetch });
+  assert(await client.connect('fake', 3000, false));
+  assertEquals(client.server.info.id, 'fake-server');
+  assertEquals(
+    await client.api.get('vessels.self.name') as unknown,
+    'Fake',
+  );
+});
+
+Deno.test('streams are opened with the injected WebSocket constructor', async () => {
+  const server = new SignalKMockServer();
+  const port = await server.start();
+  const opened: Array<string> = [];
+  class RecordingWebSocket extends WebSocket {
+    constructor(url: string | URL, protocols?: string | string[]) {
+      super(url, protocols);
+      opened.push(new URL(url).pathname);
+    }
+  }
+  const client = new SignalKClient();
+  client.transport = { WebSocket: RecordingWebSocket };
+  try {
+    const connected = new Promise<void>((resolve) =>
+      client.stream.events.once('connect', () => resolve())
+    );
+    await client.connectStream('127.0.0.1', port, false, 'none');
+    await connected;
+    assertEquals(opened, ['/signalk/v1/stream']);
+  } finally {
+    client.disconnect();
+    await server.stop();
+  }
+});
+
+Deno.test('transport is passed to all API objects', () => {
+  const client = new SignalKClient();
+  const transport = { fetch: fetch };
+  client.transport = transport;
+  [
+    client.api,
+    client.apps,
+    client.stream,
+    client.resources,
+    client.course,
+    client.autopilot,
+    client.history,
+  ].forEach((m) => assertEquals(m.transport, transport));
+});
@@ -0,0 +1,113 @@
+/*****************************
+ * Signal K message types
+ *****************************/
+
+/** Source of data in a delta update */
+export interface Source {
+  label: string;
+  type?: string;
+  src?: string;
+  pgn?: number;
+  talker?: string;
+  sentence?: string;
+  instance?: string;
+  canName?: string;
+}
+
+/** Path / value pair contained in a delta update */
+export interface PathValue<T = unknown> {
+  path: string;
+  value: T;
+}
+
+/** Alarm zone defined in path metadata */
+export interface Zone {
+  lower?: number;
+  upper?: number;
+  state: 'nominal' | 'normal' | 'alert' | 'warn' | 'alarm' | 'emergency';
+  message?: string;
+}
+
+/** Path metadata */
+export interface Meta {
+  units?: string;
+  displayName?: string;
+  shortName?: string;
+  longName?: string;
+  description?: string;
+  displayScale?: {
+    lower?: number;
+    upper?: number;
+    type?: 'linear' | 'logarithmic' | 'squareroot' | 'power';
+    power?: number;
+  };
+  timeout?: number;
+  zones?: Array<Zone>;
+  [key: string]: unknown;
+}
+
+/** Path / metadata pair contained in a delta update */
+export interface PathMeta {
+  path: string;
+  value: Meta;
+}
+
+/** Update entry contained in a delta message */
+export interface Update {
+  timestamp?: string;
+  source?: Source;
+  $source?: string;
+  values?: Array<PathValue>;
+  meta?: Array<PathMeta>;
+}
+
+/** Delta message */
+export interface Delta {
+  context: string;
+  updates: Array<Update>;
+}
+
+/** Hello message sent by the server when the stream is opened */
+export interface Hello {
+  name?: string;
+  version: string;
+  self: string;
+  roles?: Array<string>;
+  timestamp?: string;
+  /** present when connected to a playback stream */
+  startTime?: string;
+  /** present when connected to a playback stream */
+  playbackRate?: number;
+}
+
+/** Permissions that can be requested by a device access request */
+export type AccessPermission = 'readonly' | 'readwrite' | 'admin';
+
+/** Request state values */
+export type RequestState = 'PENDING' | 'COMPLETED';
+
+/** Response message to a request */
+export interface RequestResponse {
+  requestId: string;
+  state: RequestState;
+  statusCode: number;
+  message?: string;
+  href?: string;
+  login?: {
+    token?: string;
+    timeToLive?: number;
+  };
+  accessRequest?: {
+    permission: 'APPROVED' | 'DENIED';
+    token?: string;
+    expirationTime?: string;
+  };
+  [key: string]: unknown;
+}
+
+/** Message received on the stream */
+export type StreamMessage =
+  | Delta
+  | Hello
+  | RequestResponse
+  | { [key: string]: unknown };
@@ -0,0 +1,262 @@
+import { SignalKHttp } from './http-api.ts';
+import { pathUnits } from './paths.ts';
+import { NotFoundError } from './errors.ts';
+import { debug } from './mod.ts';
+
+/** Display unit preferences */
+export interface UnitProfile {
+  /** Display units keyed by SI units e.g. { 'm/s': 'kn' } */
+  units: { [siUnits: string]: string };
+  /** Display units for specific paths (overrides units) e.g. { 'navigation.log': 'nm' } */
+  paths?: { [path: string]: string };
+}
+
+/** Built-in unit profiles */
+export enum UnitPreset {
+  metric = 'metric',
+  imperial = 'imperial',
+  nautical = 'nautical',
+}
+
+/** Value converted to display units */
+export interface ConvertedValue<T = unknown> {
+  value: T;
+  units?: string;
+}
+
+/** Built-in unit profile definitions */
+export const UNIT_PROFILES: { [preset in UnitPreset]: UnitProfile } = {
+  metric: {
+    units: {
+      'm/s': 'km/h',
+      rad: 'deg',
+      'rad/s': 'deg/s',
+      K: 'C',
+      Pa: 'hPa',
+      ratio: '%',
+      m3: 'l',
+      Hz: 'rpm',
+    },
+    paths: {
+      'navigation.log': 'km',
+      'navigation.trip.log': 'km',
+    },
+  },
+  imperial: {
+    units: {
+      'm/s': 'mph',
+      rad: 'deg',
+      'rad/s': 'deg/s',
+      K: 'F',
+      Pa: 'inHg',
+      ratio: '%',
+      m: 'ft',
+      m3: 'gal',
+      Hz: 'rpm',
+    },
+    paths: {
+      'navigation.log': 'mi',
+      'navigation.trip.log': 'mi',
+    },
+  },
+  nautical: {
+    units: {
+      'm/s': 'kn',
+      rad: 'deg',
+      'rad/s': 'deg/min',
+      K: 'C',
+      Pa: 'hPa',
+      ratio: '%',
+      m3: 'l',
+      Hz: 'rpm',
+    },
+    paths: {
+      'navigation.log': 'nm',
+      'navigation.trip.log': 'nm',
+    },
+  },
+};
+
+/** Conversion functions keyed by SI units and display units */
+const CONVERSIONS: {
+  [siUnits: string]: { [units: string]: (v: number) => number };
+} = {
+  'm/s': {
+    kn: (v) => v * 3600 / 1852,
+    'km/h': (v) => v * 3.6,
+    mph: (v) => v * 3600 / 1609.344,
+  },
+  rad: {
+    deg: (v) => v * 180 / Math.PI,
+  },
+  'rad/s': {
+    'deg/s': (v) => v * 180 / Math.PI,
+    'deg/min': (v) => v * 60 * 180 / Math.PI,
+  },
+  K: {
+    C: (v) => v - 273.15,
+    F: (v) => (v - 273.15) * 9 / 5 + 32,
+  },
+  m: {
+    ft: (v) => v * 3.28084,
+    fathom: (v) => v / 1.8288,
+    km: (v) => v / 1000,
+    nm: (v) => v / 1852,
+    mi: (v) => v / 1609.344,
+  },
+  Pa: {
+    hPa: (v) => v / 100,
+    mbar: (v) => v / 100,
+    bar: (v) => v / 100000,
+    inHg: (v) => v / 3386.389,
+    psi: (v) => v / 6894.757,
+  },
+  ratio: {
+    '%': (v) => v * 100,
+  },
+  m3: {
+    l: (v) => v * 1000,
+    gal: (v) => v * 264.172,
+  },
+  Hz: {
+    rpm: (v) => v * 60,
+  },
+  s: {
+    min: (v) => v / 60,
+    h: (v) => v / 3600,
+  },
+};
+
+/** Signal K unit conversion */
+export class SignalKUnits {
+  /** Current unit profile
+   * @private
+   */
+  private _profile: UnitProfile = UNIT_PROFILES[UnitPreset.nautical];
+
+  /** SI units retrieved from path metadata keyed by path
+   * @private
+   */
+  private _meta: Map<string, string> = new Map();
+
+  /** @param profile Unit profile to use (default: nautical) */
+  constructor(profile?: UnitPreset | UnitProfile) {
+    if (profile) {
+      this.profile = profile;
+    }
+  }
+
+  /** Get current unit profile */
+  get profile(): UnitProfile {
+    return this._profile;
+  }
+
+  /** Set unit profile
+   * @param val Built-in profile name or custom profile
+   */
+  set profile(val: UnitPreset | UnitProfile) {
+    this._profile = typeof val === 'string' ? UNIT_PROFILES[val] : val;
+  }
+
+  /** Set the SI units of a path (e.g. from path metadata)
+   * @param path Signal K path
+   * @param units SI units
+   */
+  setUnits(path: string, units: string) {
+    this._meta.set(path, units);
+  }
+
+  /** Retrieve the units for a path from its metadata via the HTTP API
+   * @param api Connected HTTP API instance
+   * @param context Signal K context
+   * @param path Signal K path
+   * @returns SI units of the path
+   */
+  async loadMeta(
+    api: SignalKHttp,
+    context: string,
+    path: string,
+  ): Promise<string | undefined> {
+    let meta: { [key: string]: unknown } | undefined;
+    try {
+      meta = await api.getMeta(context, path);
+    } catch (err) {
+      // ** path has no metadata **
+      if (!(err instanceof NotFoundError)) {
+        throw err;
+      }
+    }
+    if (meta && typeof meta.units === 'string') {
+      debug(`units ${path}: ${meta.units}`);
+      this.setUnits(path, meta.units);
+    }
+    return this.unitsFor(path);
+  }
+
+  /** Return the SI units of the supplied path (from metadata or known path defaults)
+   * @param path Signal K path
+   */
+  unitsFor(path: string): string | undefined {
+    return this._meta.get(path) ?? pathUnits(path);
+  }
+
+  /** Return the display units for the supplied path using the current profile
+   * @param path Signal K path
+   */
+  displayUnits(path: string): string | undefined {
+    const units = this.unitsFor(path);
+    if (this._profile.paths && this._profile.paths[path]) {
+      return this._profile.paths[path];
+    }
+    return units ? this._profile.units[units] ?? units : undefined;
+  }
+
+  /** Convert the value of a path to display units using the current profile
+   * @param path Signal K path
+   * @param value Value in SI units
+   * @returns Converted value and its units
+   */
+  convert<T>(path: string, value: T): ConvertedValue<T> {
+    const units = this.unitsFor(path);
+    const target = this.displayUnits(path);
+    if (typeof value !== 'number' || !units || !target) {
+      return { value: value, units: units };
+    }
+    const fn = SignalKUnits.converter(units, target);
+    return fn
+      ? { value: fn(value) as T, units: target }
+      : { value: value, units: units };
+  }
+
+  /** Convert a value between units
+   * @param value Value to convert
+   * @param from SI units of value e.g. 'm/s'
+   * @param to Target units e.g. 'kn'
+   * @returns Converted value
+   */
+  static convertValue(value: number, from: string, to: string): number {
+    if (from === to) {
+      return value;
+    }
+    const fn = SignalKUnits.converter(from, to);
+    if (!fn) {
+      throw new Error(`Error: Unable to convert ${from} to ${to}!`);
+    }
+    return fn(value);
+  }
+
+  /** Return conversion function for the supplied units
+   * @private
+   * @param from SI units
+   * @param to Target units
+   */
+  private static converter(
+    from: string,
+    to: string,
+  ): ((v: number) => number) | undefined {
+    if (from === to) {
+      return (v) => v;
+    }
+    return CONVERSIONS[from] ? CONVERSIONS[from][to] : undefined;
+  }
+}
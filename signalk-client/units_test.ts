@@ -0,0 +1,97 @@
+import {
+  assertEquals,
+  assertThrows,
+} from 'https://deno.land/std@0.224.0/assert/mod.ts';
+import {
+  SignalKClient,
+  SignalKStream,
+  SignalKUnits,
+  UnitPreset,
+} from './mod.ts';
+import { SignalKMockServer } from './testing.ts';
+
+Deno.test('convert() applies the unit profile', () => {
+  const units = new SignalKUnits();
+  assertEquals(units.convert('navigation.speedOverGround', 1852), {
+    value: 3600,
+    units: 'kn',
+  });
+  assertEquals(units.convert('navigation.log', 1852), {
+    value: 1,
+    units: 'nm',
+  });
+  assertEquals(units.convert('navigation.state', 'sailing'), {
+    value: 'sailing',
+    units: undefined,
+  });
+
+  units.profile = UnitPreset.metric;
+  assertEquals(units.convert('navigation.speedOverGround', 10), {
+    value: 36,
+    units: 'km/h',
+  });
+  units.profile = { units: {}, paths: { 'environment.depth.belowKeel': 'ft' } };
+  assertEquals(units.displayUnits('environment.depth.belowKeel'), 'ft');
+  assertEquals(units.displayUnits('navigation.speedOverGround'), 'm/s');
+});
+
+Deno.test('convertValue() converts between units', () => {
+  assertEquals(SignalKUnits.convertValue(273.15, 'K', 'C'), 0);
+  assertEquals(SignalKUnits.convertValue(Math.PI, 'rad', 'deg'), 180);
+  assertEquals(SignalKUnits.convertValue(5, 'm', 'm'), 5);
+  assertThrows(
+    () => SignalKUnits.convertValue(1, 'K', 'kn'),
+    Error,
+    'Unable to convert K to kn',
+  );
+});
+
+Deno.test('loadMeta() uses units from path metadata', async () => {
+  const server = new SignalKMockServer({
+    tree: {
+      self: 'vessels.urn:mrn:signalk:uuid:mock-vessel',
+      vessels: {
+        'urn:mrn:signalk:uuid:mock-vessel': {
+          custom: { speed: { value: 1, meta: { units: 'm/s' } } },
+        },
+      },
+    },
+  });
+  const port = await server.start();
+  const client = new SignalKClient();
+  try {
+    await client.connect('127.0.0.1', port, false);
+    const units = new SignalKUnits();
+    assertEquals(
+      await units.loadMeta(client.api, 'self', 'custom.speed'),
+      'm/s',
+    );
+    assertEquals(units.displayUnits('custom.speed'), 'kn');
+    assertEquals(
+      await units.loadMeta(client.api, 'self', 'custom.other'),
+      undefined,
+    );
+  } finally {
+    await server.stop();
+  }
+});
+
+Deno.test('onPath() converts values when requested', () => {
+  const stream = new SignalKStream();
+  const values: Array<[unknown, string | undefined]> = [];
+  stream.onPath(
+    '*',
+    'environment.water.temperature',
+    (value, _timestamp, _source, _path, units) => values.push([value, units]),
+    { convert: true },
+  );
+  stream.inject(JSON.stringify({
+    context: 'vessels.self',
+    updates: [{
+      values: [{ path: 'environment.water.temperature', value: 293.15 }],
+    }],
+  }));
+  assertEquals(values.length, 1);
+  assertEquals(Math.round(values[0][0] as number), 20);
+  assertEquals(values[0][1], 'C');
+});
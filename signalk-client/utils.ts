@@ -1,3 +1,5 @@
+import { Update } from './types.ts';
+
 /** Signal K stream subscripton. */
 export interface Subscription {
   path: string;
@@ -7,6 +9,9 @@ export interface Subscription {
   minPeriod?: number;
 }
 
+/** Signal K stream subscription options. */
+export type SubscriptionOptions = Omit<Subscription, 'path'>;
+
 /** Signal K Path functions */
 export class Path {
   /** transform path value from dot notation to slash notation
@@ -36,7 +41,9 @@ export class Message {
   /** returns UPDATES message object */
   static updates(): {
     context: string | null;
-    updates: Array<{ path: string; value: unknown }>;
+    updates: Array<Update>;
+    token?: string;
+    clientId?: string;
   } {
     return {
       context: null,
@@ -48,6 +55,7 @@ export class Message {
   static subscribe(): {
     context: string | null;
     subscribe: Array<Subscription>;
+    token?: string;
   } {
     return {
       context: null,
@@ -59,6 +67,7 @@ export class Message {
   static unsubscribe(): {
     context: string | null;
     unsubscribe: Array<{ path: string }>;
+    token?: string;
   } {
     return {
       context: null,
@@ -67,7 +76,12 @@ export class Message {
   }
 
   /** returns REQUEST message object */
-  static request(): { requestId: string } {
+  static request(): {
+    requestId: string;
+    token?: string;
+    clientId?: string;
+    [key: string]: unknown;
+  } {
     return {
       requestId: crypto.randomUUID(),
     };